@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+/**
+ * x402 command-line tool: runs sdk/cli.ts through tsx with the package's
+ * tsconfig (for the @shared alias), from any working directory
+ */
+
+import { fileURLToPath } from "url";
+import { register } from "tsx/esm/api";
+
+register({ tsconfig: fileURLToPath(new URL("../tsconfig.json", import.meta.url)) });
+await import("../sdk/cli.ts");
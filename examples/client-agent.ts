@@ -7,10 +7,12 @@
  * Run with: npx tsx examples/client-agent.ts
  */
 
-import { x402Fetch } from "../sdk";
+import { x402Fetch, SpendingPolicy, loadSignerFromEnv } from "../sdk";
 import { Keypair } from "@solana/web3.js";
 
-// In production, load from secure environment variables
+// In production, load from secure environment variables: a JSON-array or
+// base58 secret key, a mnemonic, or a keypair / keystore file path
+// (with AGENT_PRIVATE_KEY_PASSWORD)
 const AGENT_PRIVATE_KEY = process.env.AGENT_PRIVATE_KEY;
 
 async function main() {
@@ -21,8 +23,7 @@ async function main() {
   
   if (AGENT_PRIVATE_KEY) {
     // Load from environment
-    const secretKey = Uint8Array.from(JSON.parse(AGENT_PRIVATE_KEY));
-    agentKeypair = Keypair.fromSecretKey(secretKey);
+    agentKeypair = await loadSignerFromEnv("AGENT_PRIVATE_KEY");
   } else {
     // Generate new keypair for demo
     agentKeypair = Keypair.generate();
@@ -31,6 +32,14 @@ async function main() {
     console.log("💰 Please fund this address with SOL/USDC on devnet\n");
   }
 
+  // Never let the agent spend more than this, whatever servers ask for
+  const spendingPolicy: SpendingPolicy = {
+    maxPerRequest: { SOL: "0.01", USDC: "1" },
+    budget: { daily: { SOL: "0.1", USDC: "10" } },
+    originBudget: { hourly: { USDC: "2" } },
+    allowedNetworks: ["devnet"],
+  };
+
   // Example 1: Simple x402 fetch with automatic payment
   console.log("📡 Example 1: Fetching premium data with automatic payment");
   
@@ -38,6 +47,7 @@ async function main() {
     const response = await x402Fetch("http://localhost:5000/api/premium-data", {
       network: "devnet",
       signer: agentKeypair,
+      spendingPolicy,
       method: "GET",
     });
 
@@ -60,6 +70,7 @@ async function main() {
     const response = await x402Fetch("http://localhost:5000/api/ai/generate", {
       network: "devnet",
       signer: agentKeypair,
+      spendingPolicy,
       method: "POST",
       body: JSON.stringify({
         prompt: "Explain x402 protocol in simple terms",
@@ -8,6 +8,7 @@
  */
 
 import express from "express";
+import { Keypair } from "@solana/web3.js";
 import { createX402Server } from "../sdk";
 
 const app = express();
@@ -17,11 +18,18 @@ app.use(express.json());
 // In production, use your actual Solana address
 const RECIPIENT_ADDRESS = process.env.RECIPIENT_ADDRESS || "DemoAddress1111111111111111111111111111111";
 
+// Settlement key for usage-based payments: clients delegate a maximum to it,
+// and it transfers only what was used. It also pays the settlement fees.
+const SETTLEMENT_KEYPAIR = process.env.SETTLEMENT_PRIVATE_KEY
+  ? Keypair.fromSecretKey(Uint8Array.from(JSON.parse(process.env.SETTLEMENT_PRIVATE_KEY)))
+  : Keypair.generate();
+
 const x402Server = createX402Server({
   network: "devnet",
   recipientAddress: RECIPIENT_ADDRESS,
   enableCache: true, // Cache verified payments for 5 minutes
   cacheTTL: 300,
+  settlementKeypair: SETTLEMENT_KEYPAIR,
 });
 
 console.log("🚀 Starting x402-Enabled API Server");
@@ -36,17 +44,16 @@ app.get("/api/public", (req, res) => {
   });
 });
 
-// Premium data endpoint (requires 0.001 SOL payment)
+// Premium data endpoint (0.001 SOL or 0.15 USDC, client's choice)
 app.get(
   "/api/premium-data",
-  x402Server.requirePayment({
-    amount: "0.001",
-    token: "SOL",
-    memo: "Premium data access",
-  }),
+  x402Server.requirePayment([
+    { amount: "0.001", token: "SOL", memo: "Premium data access" },
+    { amount: "0.15", token: "USDC", memo: "Premium data access" },
+  ]),
   (req, res) => {
     console.log("✅ Payment verified for premium data request");
-    console.log("   Transaction:", req.payment?.proof.signature);
+    console.log("   Transaction:", req.payment?.proof?.signature);
     
     res.json({
       data: "This is premium content",
@@ -64,25 +71,45 @@ app.get(
   }
 );
 
-// AI model endpoint (requires 0.5 USDC payment)
+// AI model endpoint (usage-based: authorize up to 0.5 USDC, pay 0.005 USDC per token)
+const PRICE_PER_TOKEN_MICRO_USDC = 5000;
+
 app.post(
   "/api/ai/generate",
   x402Server.requirePayment({
     amount: "0.5",
     token: "USDC",
+    scheme: "upto",
     memo: "AI generation request",
   }),
-  (req, res) => {
+  async (req, res) => {
     const { prompt, max_tokens = 100 } = req.body;
     
-    console.log("✅ Payment verified for AI generation");
+    console.log("✅ Payment authorized for AI generation");
     console.log("   Prompt:", prompt?.substring(0, 50) + "...");
     
     // Simulate AI generation
+    const text = `The x402 protocol enables seamless micropayments for API access. It allows AI agents and applications to pay for resources on-demand using blockchain transactions, eliminating the need for traditional subscriptions or accounts.`;
+    const tokensUsed = Math.min(max_tokens, text.split(" ").length, 100);
+
+    // Charge only what was used (sets the X-Payment-Charge header)
+    const usage = (tokensUsed * PRICE_PER_TOKEN_MICRO_USDC / 1_000_000).toFixed(6);
+    let settlement;
+    try {
+      settlement = await req.payment?.settle?.(usage);
+    } catch (error) {
+      // RPC failure, revoked delegation, ...: Express 4 does not catch async errors
+      res.status(500).json({
+        error: "Payment settlement failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+      return;
+    }
+
     const response = {
-      text: `The x402 protocol enables seamless micropayments for API access. It allows AI agents and applications to pay for resources on-demand using blockchain transactions, eliminating the need for traditional subscriptions or accounts.`,
-      tokens_used: max_tokens,
-      cost: req.payment?.amount,
+      text,
+      tokens_used: tokensUsed,
+      cost: settlement?.amount,
       token: req.payment?.token,
       model: "gpt-4-turbo",
     };
@@ -115,8 +142,8 @@ app.listen(PORT, () => {
   console.log(`📍 Server running on http://localhost:${PORT}`);
   console.log("\n📚 Available endpoints:");
   console.log("   GET  /api/public          - Free endpoint");
-  console.log("   GET  /api/premium-data    - Requires 0.001 SOL");
-  console.log("   POST /api/ai/generate     - Requires 0.5 USDC");
+  console.log("   GET  /api/premium-data    - Requires 0.001 SOL or 0.15 USDC");
+  console.log("   POST /api/ai/generate     - Up to 0.5 USDC (usage-based)");
   console.log("   GET  /api/payment/status/:signature");
   console.log("   GET  /health\n");
 });
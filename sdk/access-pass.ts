@@ -0,0 +1,33 @@
+/**
+ * x402 Solana SDK - Access Passes
+ * Signed credentials granting access to a path scope for a while after a
+ * single payment, checked by the server without touching the RPC
+ */
+
+import { PaymentRequirements } from "@shared/x402-types";
+
+/**
+ * Payload of a signed access pass
+ */
+export interface AccessPassPayload extends Record<string, unknown> {
+  typ: "x402-pass";
+  sub: string; // Payer
+  aud: string; // Recipient address of the issuing server
+  scp: string; // Scope (see matchesPassScope)
+  req: PaymentRequirements; // Requirements the pass was paid under
+  jti: string; // Payment signature
+  max?: number; // Uses allowed
+  exp: number; // Expiry (seconds)
+}
+
+/**
+ * Check whether a pass scope covers a path.
+ * "/api/premium/*" covers every path starting with "/api/premium/";
+ * a scope without "*" covers that exact path.
+ */
+export function matchesPassScope(scope: string, path: string): boolean {
+  if (scope.endsWith("*")) {
+    return path.startsWith(scope.slice(0, -1));
+  }
+  return path === scope;
+}
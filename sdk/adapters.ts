@@ -0,0 +1,361 @@
+/**
+ * x402 Solana SDK - Framework Adapters
+ * Thin wrappers around X402Server.createHandler() for Express, Fastify, Koa,
+ * Hono and Web-standard (Fetch API) Request/Response handlers
+ */
+
+import {
+  Request as ExpressRequest,
+  Response as ExpressResponse,
+  NextFunction,
+} from "express";
+import {
+  X402Server,
+  PaymentInfo,
+  PaymentRequest,
+  PaymentHandleResult,
+  RoutePricing,
+} from "./server";
+import { listExpressRoutes } from "./discovery";
+
+/**
+ * Extend Express Request with payment info
+ */
+declare global {
+  namespace Express {
+    interface Request {
+      payment?: PaymentInfo;
+    }
+  }
+}
+
+/**
+ * Route pricing for Express: options, or a resolver given the Express request
+ */
+export type ExpressPricing = RoutePricing<ExpressRequest>;
+
+/**
+ * Pricing of each requirePayment middleware, for listing guarded routes
+ */
+const expressPricing = new WeakMap<object, ExpressPricing>();
+
+/**
+ * Pricing of a requirePayment middleware (undefined for other handlers)
+ */
+export function getExpressPricing(handler: unknown): ExpressPricing | undefined {
+  return typeof handler === "function" ? expressPricing.get(handler) : undefined;
+}
+
+/**
+ * Hand a pricing resolver the framework's own request instead of the
+ * neutral PaymentRequest
+ */
+function fromRaw<T>(pricing: RoutePricing<T>): RoutePricing {
+  return typeof pricing === "function"
+    ? (request) => pricing(request.raw as T)
+    : pricing;
+}
+
+/**
+ * Make settle() also apply the settlement headers (X-Payment-Charge, ...)
+ * to the framework's response
+ */
+function withSettlementHeaders(
+  payment: PaymentInfo | undefined,
+  setHeader: (name: string, value: string) => void
+): PaymentInfo | undefined {
+  const settle = payment?.settle;
+  if (!payment || !settle) return payment;
+
+  return {
+    ...payment,
+    settle: async (amount) => {
+      const result = await settle(amount);
+      Object.entries(result.headers).forEach(([name, value]) => setHeader(name, value));
+      return result;
+    },
+  };
+}
+
+/**
+ * Headers of a Fetch API Request as a plain record
+ */
+function toHeaderRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    record[name] = value;
+  });
+  return record;
+}
+
+/**
+ * Express middleware; the payment is available as `req.payment`
+ */
+export function createExpressMiddleware(server: X402Server, pricing: ExpressPricing) {
+  const handle = server.createHandler(fromRaw(pricing));
+
+  const middleware = async (req: ExpressRequest, res: ExpressResponse, next: NextFunction) => {
+    const result = await handle({
+      method: req.method,
+      path: `${req.baseUrl}${req.path}`,
+      url: `${req.protocol}://${req.get("host")}${req.originalUrl}`,
+      headers: req.headers,
+      raw: req,
+    });
+
+    res.set(result.headers);
+    if (!result.paid) {
+      return res.status(result.response402!.status).json(result.response402!.body);
+    }
+
+    req.payment = withSettlementHeaders(result.payment, (name, value) => {
+      res.setHeader(name, value);
+    });
+    next();
+  };
+
+  expressPricing.set(middleware, pricing);
+  return middleware;
+}
+
+/**
+ * Express handler serving the discovery document: the pricing config's
+ * routes, then the app's requirePayment routes
+ */
+export function createExpressDiscovery(server: X402Server) {
+  return async (req: ExpressRequest, res: ExpressResponse) => {
+    try {
+      res.json(await server.getDiscoveryDocument(listExpressRoutes(req.app)));
+    } catch (error) {
+      res.status(500).json({
+        error: "Discovery error",
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+}
+
+/**
+ * Parts of a Fastify request used by the adapter
+ */
+export interface FastifyRequestLike {
+  method: string;
+  url: string;
+  protocol?: string;
+  headers: Record<string, string | string[] | undefined>;
+  payment?: PaymentInfo;
+}
+
+/**
+ * Parts of a Fastify reply used by the adapter
+ */
+export interface FastifyReplyLike {
+  code(statusCode: number): FastifyReplyLike;
+  header(name: string, value: string): FastifyReplyLike;
+  send(payload?: unknown): FastifyReplyLike;
+}
+
+/**
+ * Fastify preHandler hook; the payment is available as `request.payment`
+ *
+ * @example
+ * ```typescript
+ * fastify.get("/api/data", { preHandler: createFastifyPreHandler(server, options) }, handler);
+ * ```
+ */
+export function createFastifyPreHandler(
+  server: X402Server,
+  pricing: RoutePricing<FastifyRequestLike>
+) {
+  const handle = server.createHandler(fromRaw(pricing));
+
+  return async (request: FastifyRequestLike, reply: FastifyReplyLike) => {
+    const path = request.url.split("?")[0];
+    const result = await handle({
+      method: request.method,
+      path,
+      url: `${request.protocol ?? "http"}://${request.headers.host}${request.url}`,
+      headers: request.headers,
+      raw: request,
+    });
+
+    Object.entries(result.headers).forEach(([name, value]) => reply.header(name, value));
+    if (!result.paid) {
+      return reply.code(result.response402!.status).send(result.response402!.body);
+    }
+
+    request.payment = withSettlementHeaders(result.payment, (name, value) => {
+      reply.header(name, value);
+    });
+  };
+}
+
+/**
+ * Parts of a Fastify route definition used by the plugin
+ */
+export interface FastifyRouteLike {
+  config?: { payment?: RoutePricing<FastifyRequestLike> };
+  preHandler?: unknown;
+}
+
+/**
+ * Fastify plugin adding a payment preHandler to every route whose
+ * `config.payment` holds payment options (or a pricing resolver)
+ *
+ * @example
+ * ```typescript
+ * await fastify.register(fastifyX402, { server });
+ * fastify.get("/api/data", { config: { payment: { amount: "0.01", token: "USDC" } } }, handler);
+ * ```
+ */
+export function fastifyX402(
+  fastify: {
+    decorateRequest(name: string, value: unknown): unknown;
+    addHook(name: "onRoute", hook: (route: FastifyRouteLike) => void): unknown;
+  },
+  pluginOptions: { server: X402Server },
+  done: (error?: Error) => void
+): void {
+  fastify.decorateRequest("payment", null);
+  fastify.addHook("onRoute", (route) => {
+    const pricing = route.config?.payment;
+    if (!pricing) return;
+
+    const preHandler = createFastifyPreHandler(pluginOptions.server, pricing);
+    route.preHandler = route.preHandler
+      ? [...(Array.isArray(route.preHandler) ? route.preHandler : [route.preHandler]), preHandler]
+      : preHandler;
+  });
+  done();
+}
+
+// Apply to the whole instance instead of an encapsulated context
+// (what fastify-plugin does)
+(fastifyX402 as unknown as Record<symbol, boolean>)[Symbol.for("skip-override")] = true;
+
+/**
+ * Parts of a Koa context used by the adapter
+ */
+export interface KoaContextLike {
+  method: string;
+  path: string;
+  href: string;
+  headers: Record<string, string | string[] | undefined>;
+  status: number;
+  body: unknown;
+  state: Record<string, unknown>;
+  set(name: string, value: string): void;
+}
+
+/**
+ * Koa middleware; the payment is available as `ctx.state.payment`
+ */
+export function createKoaMiddleware(server: X402Server, pricing: RoutePricing<KoaContextLike>) {
+  const handle = server.createHandler(fromRaw(pricing));
+
+  return async (ctx: KoaContextLike, next: () => Promise<unknown>) => {
+    const result = await handle({
+      method: ctx.method,
+      path: ctx.path,
+      url: ctx.href,
+      headers: ctx.headers,
+      raw: ctx,
+    });
+
+    Object.entries(result.headers).forEach(([name, value]) => ctx.set(name, value));
+    if (!result.paid) {
+      ctx.status = result.response402!.status;
+      ctx.body = result.response402!.body;
+      return;
+    }
+
+    ctx.state.payment = withSettlementHeaders(result.payment, (name, value) => {
+      ctx.set(name, value);
+    });
+    await next();
+  };
+}
+
+/**
+ * Parts of a Hono context used by the adapter
+ */
+export interface HonoContextLike {
+  req: { method: string; url: string; raw: Request };
+  header(name: string, value: string): void;
+  json(body: unknown, status?: number): Response;
+  set(key: "payment", value: PaymentInfo | undefined): void;
+}
+
+/**
+ * Hono middleware; the payment is available as `c.get("payment")`
+ */
+export function createHonoMiddleware(server: X402Server, pricing: RoutePricing<HonoContextLike>) {
+  const handle = server.createHandler(fromRaw(pricing));
+
+  return async (c: HonoContextLike, next: () => Promise<void>) => {
+    const result = await handle({ ...toPaymentRequest(c.req.raw), raw: c });
+
+    Object.entries(result.headers).forEach(([name, value]) => c.header(name, value));
+    if (!result.paid) {
+      return c.json(result.response402!.body, result.response402!.status);
+    }
+
+    c.set("payment", withSettlementHeaders(result.payment, (name, value) => {
+      c.header(name, value);
+    }));
+    await next();
+  };
+}
+
+/**
+ * Wrap a Fetch API handler (Next.js route handlers, Cloudflare Workers,
+ * Deno, Bun, ...) so it only runs for paid requests
+ *
+ * @example Next.js
+ * ```typescript
+ * export const GET = withX402Payment(server, { amount: "0.01", token: "USDC" },
+ *   async (request, payment) => Response.json({ paidBy: payment?.payer })
+ * );
+ * ```
+ */
+export function withX402Payment(
+  server: X402Server,
+  pricing: RoutePricing<Request>,
+  handler: (request: Request, payment?: PaymentInfo) => Response | Promise<Response>
+): (request: Request) => Promise<Response> {
+  const handle = server.createHandler(fromRaw(pricing));
+
+  return async (request: Request) => {
+    const result: PaymentHandleResult = await handle(toPaymentRequest(request));
+    if (!result.paid) {
+      return Response.json(result.response402!.body, {
+        status: result.response402!.status,
+        headers: result.headers,
+      });
+    }
+
+    // Settlement headers land in result.headers too, so apply them afterwards
+    const response = await handler(request, result.payment);
+    const headers = new Headers(response.headers);
+    Object.entries(result.headers).forEach(([name, value]) => headers.set(name, value));
+
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  };
+}
+
+/**
+ * Framework-neutral request from a Fetch API Request
+ */
+export function toPaymentRequest(request: Request): PaymentRequest {
+  return {
+    method: request.method,
+    path: new URL(request.url).pathname,
+    url: request.url,
+    headers: toHeaderRecord(request.headers),
+    raw: request,
+  };
+}
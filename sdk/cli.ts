@@ -0,0 +1,348 @@
+/**
+ * x402 Solana SDK - Command-line Tool
+ * Inspect, call and pay x402 endpoints, and check payments on-chain
+ *
+ * Run with: npx x402 <command> [options]
+ */
+
+import { readFileSync } from "fs";
+import { parseArgs } from "util";
+import { Keypair } from "@solana/web3.js";
+import { ZodError } from "zod";
+import { Network, NetworkSchema, PaymentRequirements } from "@shared/x402-types";
+import { X402Client, createPaymentProof } from "./client";
+import {
+  createConnection,
+  verifyPaymentTransaction,
+  getTransactionStatus,
+  getRequirementsDecimals,
+  resolvePaymentToken,
+  baseUnitsToAmount,
+  amountToBaseUnits,
+} from "./solana-utils";
+import { parsePaymentRequiredBody, encodePaymentHeader, WireFormat } from "./wire-format";
+import { silentLogger } from "./logger";
+import { loadSigner, loadSignerFromEnv, loadKeypairFile } from "./signer-loader";
+
+const USAGE = `Usage: x402 <command> [options]
+
+Commands:
+  inspect <url>          Show the payment requirements of an endpoint
+  curl <url>             Fetch a URL, paying automatically when it returns 402
+  pay                    Pay requirements and print the proof / X-Payment header
+  verify <signature>     Verify a payment transaction against requirements
+  status <signature>     Show a transaction's confirmation status
+
+Options:
+  -X, --request <method>      HTTP method (inspect, curl)
+  -H, --header <header>       Request header "Name: value", repeatable (inspect, curl)
+  -d, --data <body>           Request body (inspect, curl)
+  -k, --keypair <key>         Keypair or keystore file, base58 key or mnemonic
+                              (default $X402_PRIVATE_KEY, then ~/.config/solana/id.json)
+  -r, --requirements <json>   Requirements or 402 body: a file, "-" for stdin, or inline JSON
+      --option <index>        Which accepted option to pay (pay, verify; default 0)
+      --max <token=amount>    Refuse payments above this amount in token units, e.g.
+                              USDC=0.05; repeatable, other tokens are refused (curl)
+  -n, --network <network>     mainnet-beta, devnet or testnet (default devnet)
+      --rpc <url>             RPC endpoint
+      --commitment <level>    confirmed or finalized (verify; default confirmed)
+      --json                  Machine-readable output
+  -h, --help                  Show this help`;
+
+type Options = ReturnType<typeof parseOptions>["values"];
+
+/**
+ * Raised for invalid usage: printed with the usage, exit code 2
+ */
+class UsageError extends Error {}
+
+function parseOptions(args: string[]) {
+  try {
+    return parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        request: { type: "string", short: "X" },
+        header: { type: "string", short: "H", multiple: true },
+        data: { type: "string", short: "d" },
+        keypair: { type: "string", short: "k" },
+        requirements: { type: "string", short: "r" },
+        option: { type: "string" },
+        max: { type: "string", multiple: true },
+        network: { type: "string", short: "n" },
+        rpc: { type: "string" },
+        commitment: { type: "string" },
+        json: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    // Unknown options, missing values, ...
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Signing keypair: --keypair, else $X402_PRIVATE_KEY, else the Solana CLI
+ * default. Keystores are unlocked with $X402_PRIVATE_KEY_PASSWORD.
+ */
+async function loadKeypair(options: Options): Promise<Keypair> {
+  if (options.keypair) {
+    return loadSigner(options.keypair, { password: process.env.X402_PRIVATE_KEY_PASSWORD });
+  }
+  return process.env.X402_PRIVATE_KEY ? loadSignerFromEnv() : loadKeypairFile();
+}
+
+function getNetwork(options: Options): Network {
+  const network = NetworkSchema.safeParse(options.network ?? "devnet");
+  if (!network.success) {
+    throw new UsageError(`Unknown network ${options.network}`);
+  }
+  return network.data;
+}
+
+/**
+ * Requirements from --requirements: a native requirements object, a
+ * native or x402 402 body, or a list of requirements
+ */
+function readRequirements(options: Options): ReturnType<typeof parsePaymentRequiredBody> {
+  const source = options.requirements;
+  if (!source) {
+    throw new UsageError("Missing --requirements");
+  }
+
+  const text = source === "-"
+    ? readFileSync(0, "utf8")
+    : /^\s*[[{]/.test(source) ? source : readFileSync(source, "utf8");
+  const body = JSON.parse(text);
+  try {
+    return parsePaymentRequiredBody(Array.isArray(body) ? { accepts: body } : body);
+  } catch (error) {
+    const issues = error instanceof ZodError
+      ? error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join(", ")
+      : String(error);
+    throw new UsageError(`Invalid requirements: ${issues}`);
+  }
+}
+
+/**
+ * The option selected with --option, and the wire format it came in
+ */
+function pickRequirements(
+  options: Options
+): { requirements: PaymentRequirements; format: WireFormat } {
+  const { format, requirements } = readRequirements(options);
+  const index = Number(options.option ?? 0);
+  if (!requirements[index]) {
+    throw new UsageError(`No payment option ${index} (${requirements.length} available)`);
+  }
+  return { requirements: requirements[index], format };
+}
+
+function getRequestInit(options: Options): RequestInit {
+  const headers = new Headers();
+  for (const header of options.header ?? []) {
+    const separator = header.indexOf(":");
+    if (separator < 1) {
+      throw new UsageError(`Invalid header "${header}", expected "Name: value"`);
+    }
+    headers.append(header.slice(0, separator).trim(), header.slice(separator + 1).trim());
+  }
+
+  return {
+    method: options.request ?? (options.data !== undefined ? "POST" : "GET"),
+    headers,
+    body: options.data,
+  };
+}
+
+/**
+ * One line describing a payment option
+ */
+function describeRequirements(requirements: PaymentRequirements): string {
+  const amount = baseUnitsToAmount(
+    BigInt(requirements.amount),
+    getRequirementsDecimals(requirements)
+  );
+  const extras = [
+    requirements.scheme === "upto" && "up to (usage-based)",
+    requirements.maxQuantity && `covers up to ${requirements.maxQuantity} requests`,
+    requirements.credit && "buys prepaid credit",
+    requirements.pass && `pass for ${requirements.pass.duration}s on ${requirements.pass.scope}`,
+    requirements.subscription && `subscription ${requirements.subscription.plan}`,
+  ].filter(Boolean);
+
+  return (
+    `${amount} ${requirements.token} on ${requirements.network} to ${requirements.recipient}` +
+    (extras.length ? ` (${extras.join(", ")})` : "")
+  );
+}
+
+function print(options: Options, json: unknown, text: string): void {
+  console.log(options.json ? JSON.stringify(json, null, 2) : text);
+}
+
+async function inspect(url: string, options: Options): Promise<number> {
+  const response = await fetch(url, getRequestInit(options));
+  if (response.status !== 402) {
+    print(options, { url, status: response.status, paymentRequired: false },
+      `${url}: ${response.status}, no payment required`);
+    return 0;
+  }
+
+  const { format, requirements, error } = parsePaymentRequiredBody(await response.json());
+  print(options, { url, status: 402, paymentRequired: true, format, error, requirements }, [
+    `${url}: 402 Payment Required (${format} format)${error ? ` - ${error}` : ""}`,
+    ...requirements.map((option, index) => `  [${index}] ${describeRequirements(option)}`),
+  ].join("\n"));
+  return 0;
+}
+
+/**
+ * Per-token caps from --max TOKEN=amount (token symbol or mint address)
+ */
+function getMaxAmounts(options: Options): Map<string, string> | null {
+  if (!options.max) return null;
+
+  const caps = new Map<string, string>();
+  for (const entry of options.max) {
+    const match = /^([^=\s]+)=(\d+(\.\d+)?)$/.exec(entry);
+    if (!match) {
+      throw new UsageError(`Invalid --max "${entry}", expected TOKEN=amount (e.g. USDC=0.05)`);
+    }
+    caps.set(match[1].toUpperCase(), match[2]);
+  }
+  return caps;
+}
+
+async function curl(url: string, options: Options): Promise<number> {
+  const maxAmounts = getMaxAmounts(options);
+  const network = getNetwork(options);
+  const connection = createConnection(network, options.rpc);
+  let approved: PaymentRequirements | undefined;
+  const client = new X402Client({
+    network,
+    rpcEndpoint: options.rpc,
+    signer: await loadKeypair(options),
+    logger: silentLogger,
+    approvePayment: async (requirements) => {
+      if (maxAmounts) {
+        // Token and decimals of the mint actually paid, not the server's labels
+        const { token, decimals } = await resolvePaymentToken(connection, requirements);
+        const max = maxAmounts.get(token.toUpperCase());
+        if (max === undefined || BigInt(requirements.amount) > amountToBaseUnits(max, decimals)) {
+          return false;
+        }
+      }
+      approved = requirements;
+      return true;
+    },
+  });
+
+  const response = await client.fetch(url, getRequestInit(options));
+  const body = await response.text();
+
+  // Approval happens before paying: only a request that went through with
+  // the payment counts as paid (failures throw, or answer 402 again)
+  const paid = approved && response.status !== 402 ? [approved] : [];
+
+  if (options.json) {
+    let parsed: unknown = body;
+    try {
+      parsed = JSON.parse(body);
+    } catch (error) {
+      // Not JSON: keep the text
+    }
+    print(options, {
+      url,
+      status: response.status,
+      headers: Object.fromEntries(Array.from(response.headers.entries())),
+      paid,
+      body: parsed,
+    }, "");
+  } else {
+    paid.forEach((requirements) => console.error(`Paid ${describeRequirements(requirements)}`));
+    process.stdout.write(body);
+  }
+  return response.ok ? 0 : 1;
+}
+
+async function pay(options: Options): Promise<number> {
+  const { requirements, format } = pickRequirements(options);
+  const proof = await createPaymentProof(requirements, await loadKeypair(options), {
+    network: requirements.network,
+    rpcEndpoint: options.rpc,
+  });
+
+  // Encoded in the 402's wire format
+  const header = encodePaymentHeader(proof, format, requirements.scheme);
+  print(options, { proof, header }, `Paid ${describeRequirements(requirements)}\n` +
+    `Signature: ${proof.signature}\nX-Payment: ${header}`);
+  return 0;
+}
+
+async function verify(signature: string, options: Options): Promise<number> {
+  const { requirements } = pickRequirements(options);
+  const commitment = options.commitment ?? "confirmed";
+  if (commitment !== "confirmed" && commitment !== "finalized") {
+    throw new UsageError(`Unknown commitment ${commitment}`);
+  }
+
+  const connection = createConnection(requirements.network, options.rpc);
+  const result = await verifyPaymentTransaction(connection, signature, requirements, commitment);
+  if (result.valid) {
+    const { payer, amount } = result.value;
+    print(options, { valid: true, ...result.value, amount: amount.toString() },
+      `Valid: ${payer} paid ${baseUnitsToAmount(amount, getRequirementsDecimals(requirements))} ` +
+      `${requirements.token}`);
+    return 0;
+  }
+
+  print(options, result, `Invalid (${result.reason}): ${result.message}`);
+  return 1;
+}
+
+async function status(signature: string, options: Options): Promise<number> {
+  const network = getNetwork(options);
+  const result = await getTransactionStatus(createConnection(network, options.rpc), signature);
+  print(options, { signature, network, status: result }, result);
+  return result === "failed" ? 1 : 0;
+}
+
+async function main(args: string[]): Promise<number> {
+  const { values: options, positionals } = parseOptions(args);
+  const [command, target] = positionals;
+
+  if (options.help || !command) {
+    console.log(USAGE);
+    return command || options.help ? 0 : 2;
+  }
+
+  const needsTarget = (name: string) => {
+    if (!target) throw new UsageError(`${command} needs a ${name}`);
+    return target;
+  };
+
+  switch (command) {
+    case "inspect":
+      return inspect(needsTarget("URL"), options);
+    case "curl":
+      return curl(needsTarget("URL"), options);
+    case "pay":
+      return pay(options);
+    case "verify":
+      return verify(needsTarget("signature"), options);
+    case "status":
+      return status(needsTarget("signature"), options);
+    default:
+      throw new UsageError(`Unknown command ${command}`);
+  }
+}
+
+main(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(`x402: ${error instanceof Error ? error.message : error}`);
+    if (error instanceof UsageError) console.error(`\n${USAGE}`);
+    process.exit(error instanceof UsageError ? 2 : 1);
+  });
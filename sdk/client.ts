@@ -7,19 +7,50 @@ import { Connection, Keypair, PublicKey, Transaction } from "@solana/web3.js";
 import {
   Network,
   PaymentRequirements,
-  PaymentRequirementsSchema,
   PaymentProof,
+  TokenType,
   PaymentRequiredError,
   SDKConfig,
   TransactionFailedError,
+  PaymentVerificationError,
+  PaymentDeclinedError,
+  PaidButFailedError,
+  X402Error,
+  VerificationFailureReasonSchema,
+  VerificationFailureReason,
 } from "@shared/x402-types";
 import {
   createConnection,
   createPaymentTransaction,
-  signAndSendTransaction,
-  confirmTransaction,
+  createRevokeTransaction,
   getRpcEndpoint,
+  getTransactionSignature,
+  TRANSIENT_VERIFICATION_FAILURES,
 } from "./solana-utils";
+import {
+  withRetry,
+  backoffDelay,
+  sleep,
+  isRetryableRpcError,
+  isBlockhashExpiredError,
+} from "./retry";
+import { Logger, consoleLogger } from "./logger";
+import { SpendingPolicy, SpendingGuard } from "./spending-policy";
+import { ProofStore, StoredProof, MemoryProofStore } from "./proof-store";
+import { AccessPassPayload, matchesPassScope } from "./access-pass";
+import { peekSignedToken } from "./signing";
+import {
+  WireFormat,
+  parsePaymentRequiredBody,
+  encodePaymentHeader,
+} from "./wire-format";
+import {
+  PaymentSelectionStrategy,
+  DEFAULT_USD_PRICES,
+  selectPaymentOption,
+  estimateUsdValue,
+} from "./payment-selection";
+import { RemoteSigner, SigningContext, toTransactionSigner } from "./remote-signer";
 
 /**
  * Wallet interface for browser wallets (Phantom, Solflare, etc.)
@@ -31,9 +62,36 @@ export interface WalletAdapter {
 }
 
 /**
- * Signer can be either a Keypair (Node.js) or WalletAdapter (browser)
+ * Signer can be a Keypair (Node.js), a WalletAdapter (browser) or a
+ * RemoteSigner (keys held by a KMS, HSM or signing service)
  */
-export type Signer = Keypair | WalletAdapter;
+export type Signer = Keypair | WalletAdapter | RemoteSigner;
+
+/**
+ * What the approval hook sees before a payment is signed
+ */
+export interface PaymentApprovalContext {
+  url: string;
+  method: string;
+  options: PaymentRequirements[]; // Every option that may be paid (policy permitting)
+  usdEstimate: number | null; // USD value of the selected option, if priced
+  remainingBudget: string | null; // Token units left under the spending policy (null = uncapped)
+}
+
+/**
+ * Approval decision: true to pay the selected option, false to decline,
+ * or one of `context.options` to pay that instead
+ */
+export type PaymentApproval = boolean | PaymentRequirements;
+
+/**
+ * Hook called before a payment is signed (wallet confirmation UI, agent policy engine, ...).
+ * May also throw a PaymentDeclinedError with its own message.
+ */
+export type PaymentApprovalHandler = (
+  requirements: PaymentRequirements,
+  context: PaymentApprovalContext
+) => PaymentApproval | Promise<PaymentApproval>;
 
 /**
  * Client configuration options
@@ -42,15 +100,43 @@ export interface X402ClientConfig extends SDKConfig {
   // Wallet/keypair for signing transactions
   signer?: Signer;
   
-  // Auto-retry failed transactions
+  // Retry RPC errors, expired blockhashes and unconfirmed payments with
+  // backoff (never paying twice)
   autoRetry?: boolean;
   maxRetries?: number;
+  retryDelay?: number; // Base backoff delay in ms (default: 500)
   
   // Confirmation commitment level
   commitment?: "processed" | "confirmed" | "finalized";
   
   // Custom RPC endpoint
   rpcEndpoint?: string;
+
+  // How to choose when a server accepts several payment options
+  paymentStrategy?: PaymentSelectionStrategy;
+
+  // USD prices for the "cheapest" strategy (stablecoins default to 1)
+  usdPrices?: Record<string, number>;
+
+  // Where payment retries are logged (defaults to console)
+  logger?: Logger;
+
+  // Limits on automatic payments (caps, budgets, allowed recipients)
+  spendingPolicy?: SpendingPolicy;
+
+  // Inspect and approve, decline or change each payment before signing
+  approvePayment?: PaymentApprovalHandler;
+
+  // Proofs not yet accepted by the server, re-presented instead of paying
+  // again (defaults to in-memory, kept for proofTTL seconds, default 300)
+  proofStore?: ProofStore;
+  proofTTL?: number;
+
+  // Share one payment between concurrent 402s with identical requirements,
+  // when the server lets a payment cover several requests (maxQuantity).
+  // Payments wait coalesceWindow ms (default 50) for others to join.
+  coalescePayments?: boolean;
+  coalesceWindow?: number;
 }
 
 /**
@@ -65,6 +151,37 @@ export interface X402FetchOptions extends RequestInit {
   
   // Custom payment handler (advanced use case)
   onPaymentRequired?: (requirements: PaymentRequirements) => Promise<PaymentProof>;
+
+  // Approval hook for this request (overrides the client's)
+  approvePayment?: PaymentApprovalHandler;
+}
+
+/**
+ * Concurrent payments sharing one transaction
+ */
+interface PaymentBatch {
+  quantity: number; // Requests covered so far
+  payment: Promise<PaymentProof>;
+}
+
+/**
+ * Access pass held by the client
+ */
+interface HeldPass {
+  origin: string;
+  scope: string;
+  token: string;
+  expiresAt: number; // Unix seconds
+}
+
+/**
+ * Subscription held by the client
+ */
+export interface HeldSubscription {
+  origin: string;
+  id: string;
+  token: string; // Presented in X-Payment-Subscription
+  requirements: PaymentRequirements; // Sign-up requirements (plan, token, ...)
 }
 
 /**
@@ -73,12 +190,19 @@ export interface X402FetchOptions extends RequestInit {
 export class X402Client {
   private connection: Connection;
   private config: X402ClientConfig;
+  private spending?: SpendingGuard;
+  private proofStore: ProofStore;
+  private batches = new Map<string, PaymentBatch>();
+  private sessions = new Map<string, string>(); // Prepaid credit session tokens by origin
+  private passes: HeldPass[] = [];
+  private subscriptions: HeldSubscription[] = [];
 
   constructor(config: X402ClientConfig) {
     this.config = {
       autoRetry: true,
       maxRetries: 3,
       commitment: "confirmed",
+      paymentStrategy: "first",
       ...config,
     };
     
@@ -86,6 +210,12 @@ export class X402Client {
       config.network,
       config.rpcEndpoint
     );
+
+    this.proofStore = config.proofStore || new MemoryProofStore();
+
+    if (config.spendingPolicy) {
+      this.spending = new SpendingGuard(config.spendingPolicy, this.connection);
+    }
   }
 
   /**
@@ -95,45 +225,495 @@ export class X402Client {
     url: string,
     options: X402FetchOptions = {}
   ): Promise<Response> {
-    const { autoPayment = true, signer, onPaymentRequired, ...fetchOptions } = options;
+    const { autoPayment = true, signer, onPaymentRequired, approvePayment, ...fetchOptions } = options;
     const requestSigner = signer || this.config.signer;
+    const urlKey = this.getProofKey(url, fetchOptions.method);
 
-    // Make initial request
-    const response = await fetch(url, fetchOptions);
+    // Make initial request, re-presenting an unused proof for this URL if
+    // any. Proofs still being presented by the call that paid are left alone.
+    let response: Response | null = null;
+    const unused = autoPayment ? await this.proofStore.get(urlKey) : null;
+    if (unused?.failed) {
+      try {
+        response = await this.presentStoredPayment(url, fetchOptions, unused, urlKey);
+        if (response.status !== 402) return response;
+      } catch (error) {
+        // The old proof was rejected (used, expired, ...): start over
+        if (!(error instanceof PaymentVerificationError)) throw error;
+        response = null;
+      }
+    }
+    if (!response) {
+      response = await fetch(url, autoPayment ? this.withCredentials(url, fetchOptions) : fetchOptions);
+    }
 
     // Check if payment is required
     if (response.status === 402 && autoPayment) {
+      // A pass we sent no longer covers this URL (expired or used up)
+      this.forgetPasses(url);
+
+      // Parse payment requirements (native or x402 format)
+      const { format, options: offered } = await this.parsePaymentRequirements(response);
+
+      // Only options on the client's network can be paid
+      const options = offered.filter(
+        (option) => option.network === this.config.network
+      );
+      if (options.length === 0) {
+        throw new PaymentRequiredError(
+          offered[0],
+          `No payment option offered on ${this.config.network}`
+        );
+      }
+
       if (!requestSigner) {
         throw new PaymentRequiredError(
-          await this.parsePaymentRequirements(response),
+          options[0],
           "Payment required but no signer provided"
         );
       }
 
-      // Parse payment requirements
-      const requirements = await this.parsePaymentRequirements(response);
+      // Drop options the spending policy forbids
+      const origin = new URL(url).origin;
+      let payable = options;
+      if (this.spending) {
+        const violations = await Promise.all(
+          options.map((option) => this.spending!.check(origin, option))
+        );
+        payable = options.filter((_, index) => !violations[index]);
+        if (payable.length === 0) {
+          throw violations[0]!;
+        }
+      }
+
+      // Choose one of the accepted options
+      const selected = await selectPaymentOption(
+        payable,
+        this.config.paymentStrategy || "first",
+        {
+          connection: this.connection,
+          payer: this.getPublicKey(requestSigner),
+          usdPrices: { ...DEFAULT_USD_PRICES, ...this.config.usdPrices },
+        }
+      );
+      if (!selected) {
+        throw new PaymentRequiredError(
+          payable[0],
+          "No offered payment option matches the payment strategy"
+        );
+      }
+
+      // Let the application approve, decline or switch options
+      const requirements = await this.approve(
+        approvePayment || this.config.approvePayment,
+        selected,
+        payable,
+        url,
+        fetchOptions.method || "GET",
+        origin
+      );
+
+      // Reserve the amount first, so parallel payments cannot overspend
+      const reservation = await this.spending?.reserve(origin, requirements);
 
       // Execute payment
-      const paymentProof = onPaymentRequired
-        ? await onPaymentRequired(requirements)
-        : await this.executePayment(requirements, requestSigner);
+      const pay = async (toPay: PaymentRequirements) => {
+        const proof = onPaymentRequired
+          ? await onPaymentRequired(toPay)
+          : await this.executePayment(toPay, requestSigner);
+
+        // Echo the server's signed quote so it can verify statelessly
+        if (toPay.quote && !proof.quote) {
+          proof.quote = toPay.quote;
+        }
+        return proof;
+      };
+      let paymentProof: PaymentProof;
+      try {
+        paymentProof = this.canCoalesce(requirements)
+          ? await this.coalescePayment(requirements, urlKey, pay)
+          : await pay(requirements);
+      } catch (error) {
+        // Not paid: free the reserved amount
+        if (reservation) this.spending!.release(reservation);
+        throw error;
+      }
+      if (reservation) {
+        await this.spending!.commit(reservation, paymentProof.signature);
+      }
+
+      // Keep the proof until the server accepts it, so it is never paid twice
+      const stored: StoredProof = { proof: paymentProof, format, scheme: requirements.scheme };
+      await this.proofStore.set(urlKey, stored, this.config.proofTTL ?? 300);
+
+      // Retry request with payment proof, in the format the server spoke
+      return this.presentStoredPayment(url, fetchOptions, stored, urlKey);
+    }
+
+    return response;
+  }
+
+  /**
+   * Run the approval hook (if any) and return the option to pay
+   */
+  private async approve(
+    handler: PaymentApprovalHandler | undefined,
+    selected: PaymentRequirements,
+    options: PaymentRequirements[],
+    url: string,
+    method: string,
+    origin: string
+  ): Promise<PaymentRequirements> {
+    if (!handler) return selected;
+
+    const decision = await handler(selected, {
+      url,
+      method,
+      options,
+      usdEstimate: await estimateUsdValue(this.connection, selected, {
+        ...DEFAULT_USD_PRICES,
+        ...this.config.usdPrices,
+      }),
+      remainingBudget: this.spending ? await this.spending.remaining(origin, selected) : null,
+    });
 
-      // Retry request with payment proof
-      return this.retryWithPayment(url, fetchOptions, paymentProof);
+    if (decision === true) return selected;
+    if (decision === false) throw new PaymentDeclinedError(selected);
+
+    // Only an offered (and policy-checked) option may be substituted. Copies
+    // are matched by what is paid, and the offered option itself is used, so
+    // the handler cannot alter it.
+    const offered = options.find(
+      (option) =>
+        option.scheme === decision.scheme &&
+        option.network === decision.network &&
+        option.token === decision.token &&
+        option.mint === decision.mint &&
+        option.amount === decision.amount &&
+        option.recipient === decision.recipient &&
+        option.requestId === decision.requestId
+    );
+    if (!offered) {
+      throw new PaymentDeclinedError(
+        selected,
+        "Approval handler returned an option the server did not offer"
+      );
     }
+    return offered;
+  }
 
+  /**
+   * Whether a payment may be shared with concurrent requests
+   */
+  private canCoalesce(requirements: PaymentRequirements): boolean {
+    return (
+      !!this.config.coalescePayments &&
+      requirements.scheme === "exact" &&
+      (requirements.maxQuantity ?? 1) > 1
+    );
+  }
+
+  /**
+   * Join the open batch for identical requirements on the same resource
+   * (method and URL), or open one. The batch pays amount × quantity once,
+   * using the requirements (requestId, memo, quote) of the request that
+   * opened it; every member presents that proof, which the server ties to
+   * the opener's resource, so only requests for that resource may join.
+   */
+  private coalescePayment(
+    requirements: PaymentRequirements,
+    resource: string,
+    pay: (requirements: PaymentRequirements) => Promise<PaymentProof>
+  ): Promise<PaymentProof> {
+    const key = JSON.stringify([
+      resource,
+      requirements.maxQuantity,
+      requirements.network,
+      requirements.recipient,
+      requirements.token,
+      requirements.mint,
+      requirements.amount,
+      requirements.memo,
+    ]);
+
+    const open = this.batches.get(key);
+    if (open && open.quantity < requirements.maxQuantity!) {
+      open.quantity++;
+      return open.payment;
+    }
+
+    const batch: PaymentBatch = {
+      quantity: 1,
+      payment: sleep(this.config.coalesceWindow ?? 50).then(() => {
+        // Close the batch before paying so late requests open a new one
+        if (this.batches.get(key) === batch) {
+          this.batches.delete(key);
+        }
+        this.getLogger().debug("Paying for coalesced requests", {
+          quantity: batch.quantity,
+        });
+        return pay({
+          ...requirements,
+          amount: (BigInt(requirements.amount) * BigInt(batch.quantity)).toString(),
+        });
+      }),
+    };
+    this.batches.set(key, batch);
+    return batch.payment;
+  }
+
+  /**
+   * Present a stored proof. It stays in the proof store while the request
+   * fails in a way the proof survives (network errors, 5xx), marked as
+   * failed so later calls may re-present it, and those failures throw
+   * PaidButFailedError carrying the proof.
+   */
+  private async presentStoredPayment(
+    url: string,
+    options: RequestInit,
+    stored: StoredProof,
+    key: string
+  ): Promise<Response> {
+    const forget = () => this.proofStore.delete(key);
+    const markFailed = () =>
+      this.proofStore.set(key, { ...stored, failed: true }, this.config.proofTTL ?? 300);
+
+    let response: Response;
+    try {
+      response = await this.presentPayment(
+        url,
+        options,
+        stored.proof,
+        stored.format,
+        stored.scheme
+      );
+    } catch (error) {
+      if (error instanceof PaymentVerificationError) {
+        await forget();
+        throw error;
+      }
+      await markFailed();
+      throw new PaidButFailedError(
+        stored.proof,
+        `Paid request failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        error
+      );
+    }
+
+    if (response.status >= 500) {
+      await markFailed();
+      throw new PaidButFailedError(
+        stored.proof,
+        `Paid request failed with HTTP ${response.status}`,
+        { status: response.status }
+      );
+    }
+
+    await forget();
+    this.rememberCredentials(url, response);
     return response;
   }
 
+  /**
+   * Add the access pass covering the URL and the prepaid credit session
+   * token of its origin, if any
+   */
+  private withCredentials(url: string, options: RequestInit): RequestInit {
+    const { origin } = new URL(url);
+    const session = this.sessions.get(origin);
+    const pass = this.findPass(url);
+    const subscription = this.subscriptions.find((held) => held.origin === origin);
+    if (!session && !pass && !subscription) return options;
+
+    const headers = new Headers(options.headers);
+    if (session) headers.set("X-Payment-Session", session);
+    if (pass) headers.set("X-Payment-Pass", pass.token);
+    if (subscription) headers.set("X-Payment-Subscription", subscription.token);
+    return { ...options, headers };
+  }
+
+  /**
+   * Keep the session token or access pass a server returns after a payment
+   */
+  private rememberCredentials(url: string, response: Response): void {
+    const { origin } = new URL(url);
+
+    const session = response.headers.get("X-Payment-Session");
+    if (session) {
+      this.sessions.set(origin, session);
+    }
+
+    const token = response.headers.get("X-Payment-Pass");
+    const pass = token && peekSignedToken<AccessPassPayload>(token);
+    if (pass && typeof pass.scp === "string" && typeof pass.exp === "number") {
+      this.passes.push({ origin, scope: pass.scp, token: token!, expiresAt: pass.exp });
+    }
+
+    // Latest subscription first
+    const subscriptionToken = response.headers.get("X-Payment-Subscription");
+    const subscription = subscriptionToken &&
+      peekSignedToken<{ sub: string; req: PaymentRequirements }>(subscriptionToken);
+    if (subscription && typeof subscription.sub === "string" && subscription.req) {
+      this.subscriptions.unshift({
+        origin,
+        id: subscription.sub,
+        token: subscriptionToken!,
+        requirements: subscription.req,
+      });
+    }
+  }
+
+  /**
+   * Subscriptions started by this client
+   */
+  getSubscriptions(): HeldSubscription[] {
+    return this.subscriptions.map((subscription) => ({ ...subscription }));
+  }
+
+  /**
+   * Cancel a subscription by revoking its token delegation on-chain, so the
+   * server can no longer charge it. SPL token accounts have one delegate:
+   * this also ends any other delegation (e.g. "upto" payments) of the token.
+   * Returns the revocation transaction signature.
+   */
+  async cancelSubscription(id: string, signer?: Signer): Promise<string> {
+    const subscription = this.subscriptions.find((held) => held.id === id);
+    if (!subscription) {
+      throw new X402Error(`Unknown subscription: ${id}`, "UNKNOWN_SUBSCRIPTION");
+    }
+
+    const revokeSigner = signer || this.config.signer;
+    if (!revokeSigner) {
+      throw new X402Error("No signer provided for cancelling the subscription", "NO_SIGNER");
+    }
+
+    const signature = await this.sendTransaction(
+      (payer) => createRevokeTransaction(this.connection, payer, subscription.requirements),
+      revokeSigner,
+      { purpose: "revoke", requirements: subscription.requirements }
+    );
+    this.subscriptions = this.subscriptions.filter((held) => held.id !== id);
+    return signature;
+  }
+
+  /**
+   * Unexpired access pass covering a URL
+   */
+  private findPass(url: string): HeldPass | undefined {
+    const { origin, pathname } = new URL(url);
+    const now = Date.now() / 1000;
+    this.passes = this.passes.filter((pass) => pass.expiresAt > now);
+
+    return this.passes.find(
+      (pass) => pass.origin === origin && matchesPassScope(pass.scope, pathname)
+    );
+  }
+
+  /**
+   * Drop the access passes covering a URL
+   */
+  private forgetPasses(url: string): void {
+    const { origin, pathname } = new URL(url);
+    this.passes = this.passes.filter(
+      (pass) => pass.origin !== origin || !matchesPassScope(pass.scope, pathname)
+    );
+  }
+
+  /**
+   * Proof store key of a request
+   */
+  private getProofKey(url: string, method = "GET"): string {
+    return `url:${method.toUpperCase()} ${url}`;
+  }
+
+  /**
+   * Send the paid request. Transient failures (network errors, 429/5xx, or a
+   * 402 because the server cannot see the transaction yet) re-present the
+   * same proof with backoff, so a retry never pays twice.
+   */
+  private async presentPayment(
+    url: string,
+    options: RequestInit,
+    proof: PaymentProof,
+    format: WireFormat,
+    scheme: PaymentRequirements["scheme"]
+  ): Promise<Response> {
+    const retries = this.getRetries();
+
+    for (let attempt = 0; ; attempt++) {
+      let retryReason: string;
+      try {
+        const response = await this.retryWithPayment(url, options, proof, format, scheme);
+
+        if (response.status === 402) {
+          const failure = await this.getVerificationFailure(response);
+          if (!failure) return response;
+
+          if (!TRANSIENT_VERIFICATION_FAILURES.includes(failure.reason) || attempt >= retries) {
+            throw new PaymentVerificationError(failure.reason, failure.message, proof.signature);
+          }
+          retryReason = failure.reason;
+        } else if ((response.status === 429 || response.status >= 500) && attempt < retries) {
+          retryReason = `HTTP ${response.status}`;
+        } else {
+          return response;
+        }
+      } catch (error) {
+        // Network failure: the proof stays valid, try again
+        if (error instanceof PaymentVerificationError || attempt >= retries) {
+          throw error;
+        }
+        retryReason = error instanceof Error ? error.message : "Unknown error";
+      }
+
+      const delay = backoffDelay(attempt + 1, this.config.retryDelay);
+      this.getLogger().debug("Payment not accepted yet, re-presenting proof", {
+        signature: proof.signature,
+        reason: retryReason,
+        attempt: attempt + 1,
+        delay,
+      });
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Read the verification failure reason from a 402 sent in reply to a payment
+   */
+  private async getVerificationFailure(
+    response: Response
+  ): Promise<{ reason: VerificationFailureReason; message: string } | null> {
+    try {
+      const body = await response.clone().json();
+      const reason = VerificationFailureReasonSchema.safeParse(body?.reason);
+      if (!reason.success) return null;
+
+      return {
+        reason: reason.data,
+        message: typeof body.error === "string" ? body.error : "Payment verification failed",
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
   /**
    * Parse payment requirements from 402 response
    */
   private async parsePaymentRequirements(
     response: Response
-  ): Promise<PaymentRequirements> {
+  ): Promise<{ format: WireFormat; options: PaymentRequirements[] }> {
     try {
       const body = await response.json();
-      return PaymentRequirementsSchema.parse(body);
+      const { format, requirements } = parsePaymentRequiredBody(body);
+      if (requirements.length === 0) {
+        throw new Error(
+          format === "x402"
+            ? "No payable Solana option offered (only x402 options issued by this SDK can be paid)"
+            : "No supported Solana payment option offered"
+        );
+      }
+      return { format, options: requirements };
     } catch (error) {
       throw new Error(
         `Failed to parse payment requirements: ${error instanceof Error ? error.message : "Unknown error"}`
@@ -149,56 +729,26 @@ export class X402Client {
     signer: Signer
   ): Promise<PaymentProof> {
     try {
-      // Create payment transaction
-      const publicKey = this.getPublicKey(signer);
-      const transaction = await createPaymentTransaction(
-        this.connection,
-        publicKey,
-        requirements
-      );
-
-      // Sign and send transaction
-      let signature: string;
-      
-      if (this.isKeypair(signer)) {
-        // Node.js: Sign and send directly
-        signature = await signAndSendTransaction(
-          this.connection,
-          transaction,
-          signer
-        );
-      } else {
-        // Browser: Use wallet adapter
-        const signedTx = await signer.signTransaction(transaction);
-        signature = await this.connection.sendRawTransaction(
-          signedTx.serialize()
-        );
-      }
-
-      // Wait for confirmation using configured commitment level
-      const commitment = this.config.commitment || "confirmed";
-      const confirmed = await confirmTransaction(
-        this.connection,
-        signature,
-        commitment
+      const signature = await this.sendTransaction(
+        (payer) => createPaymentTransaction(this.connection, payer, requirements),
+        signer,
+        { purpose: "payment", requirements }
       );
 
-      if (!confirmed) {
-        throw new TransactionFailedError(
-          `Transaction failed to confirm at ${commitment} commitment level`
-        );
-      }
-
       // Create payment proof
       const proof: PaymentProof = {
         signature,
         network: requirements.network,
         requestId: requirements.requestId,
+        quote: requirements.quote,
         timestamp: Date.now(),
       };
 
       return proof;
     } catch (error) {
+      if (error instanceof TransactionFailedError) {
+        throw error;
+      }
       throw new TransactionFailedError(
         `Payment execution failed: ${error instanceof Error ? error.message : "Unknown error"}`,
         error
@@ -206,16 +756,231 @@ export class X402Client {
     }
   }
 
+  /**
+   * Build, sign and send a transaction (usually the payment) until it
+   * confirms. A new transaction (new blockhash) is only built once the
+   * previous one can no longer land, so the payment is never made twice.
+   */
+  private async sendTransaction(
+    build: (payer: PublicKey) => Promise<Transaction>,
+    signer: Signer,
+    context: SigningContext
+  ): Promise<string> {
+    const transactionSigner = toTransactionSigner(signer);
+    const publicKey = transactionSigner.publicKey;
+    const commitment = this.config.commitment || "confirmed";
+    const retries = this.getRetries();
+    const rpcRetry = {
+      retries,
+      baseDelay: this.config.retryDelay,
+      onRetry: (error: unknown, attempt: number) =>
+        this.getLogger().debug("RPC request failed, retrying", {
+          error: error instanceof Error ? error.message : error,
+          attempt,
+        }),
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      // Create payment transaction with a fresh blockhash
+      const transaction = await withRetry(
+        () => build(publicKey),
+        rpcRetry
+      );
+      const { blockhash, lastValidBlockHeight } = await withRetry(
+        () => this.connection.getLatestBlockhash(commitment),
+        rpcRetry
+      );
+      transaction.recentBlockhash = blockhash;
+
+      // Keypairs sign locally, wallets and remote signers asynchronously
+      const signed = await transactionSigner.signTransaction(transaction, context);
+
+      const signature = getTransactionSignature(signed);
+      if (!signature) {
+        throw new TransactionFailedError("Transaction was not signed by the payer");
+      }
+
+      const landed = await this.broadcastUntilSettled(
+        signed.serialize(),
+        signature,
+        blockhash,
+        lastValidBlockHeight,
+        commitment
+      );
+      if (landed) {
+        return signature;
+      }
+
+      // The blockhash expired and the transaction never landed: safe to rebuild
+      if (attempt >= retries) {
+        throw new TransactionFailedError(
+          `Payment transaction expired before confirmation (${attempt + 1} attempts)`,
+          { signature }
+        );
+      }
+      this.getLogger().debug("Payment transaction expired, rebuilding", {
+        signature,
+        attempt: attempt + 1,
+      });
+    }
+  }
+
+  /**
+   * Send a signed transaction and wait for confirmation, re-broadcasting the
+   * same bytes (same signature) on RPC errors. Before giving up on an attempt
+   * the signature status is checked, so a transaction that landed despite an
+   * error is still used.
+   * Returns true once confirmed, false if the blockhash expired without the
+   * transaction landing. Throws if it failed on-chain.
+   */
+  private async broadcastUntilSettled(
+    raw: Buffer,
+    signature: string,
+    blockhash: string,
+    lastValidBlockHeight: number,
+    commitment: "processed" | "confirmed" | "finalized"
+  ): Promise<boolean> {
+    const retries = this.getRetries();
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        // Preflight only once: re-broadcasts would fail it as already processed
+        await this.connection.sendRawTransaction(raw, {
+          skipPreflight: attempt > 0,
+          preflightCommitment: "confirmed",
+        });
+
+        const result = await this.connection.confirmTransaction(
+          { signature, blockhash, lastValidBlockHeight },
+          commitment
+        );
+        if (result.value.err) {
+          throw new TransactionFailedError(
+            `Transaction failed on-chain: ${JSON.stringify(result.value.err)}`,
+            { signature }
+          );
+        }
+        return true;
+      } catch (error) {
+        if (error instanceof TransactionFailedError) {
+          throw error;
+        }
+
+        // Did the transaction land despite the error? (Throws if unknowable)
+        const status = await this.getSignatureStatus(signature);
+        if (status?.err) {
+          throw new TransactionFailedError(
+            `Transaction failed on-chain: ${JSON.stringify(status.err)}`,
+            { signature }
+          );
+        }
+        if (status && this.meetsCommitment(status.confirmationStatus, commitment)) {
+          return true;
+        }
+
+        const expired =
+          isBlockhashExpiredError(error) ||
+          (await this.isBlockhashExpired(lastValidBlockHeight));
+        // Only a successful lookup that found nothing makes rebuilding safe
+        if (expired && !status) {
+          return false;
+        }
+
+        // Neither landed nor retryable (e.g. simulation failure): nothing was paid
+        if (!status && !expired && !isRetryableRpcError(error)) {
+          throw error;
+        }
+
+        if (attempt >= retries) {
+          throw new TransactionFailedError(
+            `Payment transaction ${signature} not confirmed; check its status before paying again`,
+            { signature, error }
+          );
+        }
+
+        const delay = backoffDelay(attempt + 1, this.config.retryDelay);
+        this.getLogger().debug("Payment transaction not confirmed yet, retrying", {
+          signature,
+          error: error instanceof Error ? error.message : error,
+          attempt: attempt + 1,
+          delay,
+        });
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Status of a signature, or null if the chain does not know it. RPC
+   * failures are retried; if the status still cannot be read, nothing can
+   * tell whether the payment landed, so this throws with the signature
+   * instead of letting the caller pay again.
+   */
+  private async getSignatureStatus(signature: string) {
+    try {
+      const { value } = await withRetry(
+        () => this.connection.getSignatureStatus(signature, { searchTransactionHistory: true }),
+        {
+          retries: this.getRetries(),
+          baseDelay: this.config.retryDelay,
+          shouldRetry: () => true,
+        }
+      );
+      return value;
+    } catch (error) {
+      throw new TransactionFailedError(
+        `Could not read the status of payment transaction ${signature}; ` +
+        "check it before paying again",
+        { signature, error }
+      );
+    }
+  }
+
+  /**
+   * Whether the chain has moved past a blockhash's last valid block height
+   */
+  private async isBlockhashExpired(lastValidBlockHeight: number): Promise<boolean> {
+    try {
+      return (await this.connection.getBlockHeight("confirmed")) > lastValidBlockHeight;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Whether a confirmation status satisfies the required commitment
+   */
+  private meetsCommitment(
+    status: string | null | undefined,
+    commitment: "processed" | "confirmed" | "finalized"
+  ): boolean {
+    const levels = ["processed", "confirmed", "finalized"];
+    return !!status && levels.indexOf(status) >= levels.indexOf(commitment);
+  }
+
+  /**
+   * Retries allowed by the configuration
+   */
+  private getRetries(): number {
+    return this.config.autoRetry ? this.config.maxRetries ?? 3 : 0;
+  }
+
+  private getLogger(): Logger {
+    return this.config.logger || consoleLogger;
+  }
+
   /**
    * Retry request with payment proof in X-Payment header
    */
   private async retryWithPayment(
     url: string,
     options: RequestInit,
-    proof: PaymentProof
+    proof: PaymentProof,
+    format: WireFormat = "native",
+    scheme: PaymentRequirements["scheme"] = "exact"
   ): Promise<Response> {
     const headers = new Headers(options.headers);
-    headers.set("X-Payment", JSON.stringify(proof));
+    headers.set("X-Payment", encodePaymentHeader(proof, format, scheme));
     headers.set("Content-Type", "application/json");
 
     return fetch(url, {
@@ -224,13 +989,6 @@ export class X402Client {
     });
   }
 
-  /**
-   * Type guard for Keypair
-   */
-  private isKeypair(signer: Signer): signer is Keypair {
-    return "secretKey" in signer;
-  }
-
   /**
    * Get public key from signer
    */
@@ -254,9 +1012,10 @@ export class X402Client {
 }
 
 /**
- * Options for x402Fetch wrapper
+ * Options for x402Fetch wrapper. Payment coalescing needs a client shared
+ * by concurrent calls, so it is only available on X402Client.
  */
-export interface X402FetchWrapperOptions extends Omit<X402ClientConfig, "network">, Omit<X402FetchOptions, "signer" | "autoPayment"> {
+export interface X402FetchWrapperOptions extends Omit<X402ClientConfig, "network" | "coalescePayments" | "coalesceWindow">, Omit<X402FetchOptions, "signer" | "autoPayment"> {
   network: Network;
   autoPayment?: boolean;
 }
@@ -276,7 +1035,7 @@ export async function x402Fetch(
   url: string,
   options: X402FetchWrapperOptions
 ): Promise<Response> {
-  const { network, signer, rpcEndpoint, commitment, autoRetry, maxRetries, autoPayment, ...fetchOptions } = options;
+  const { network, signer, rpcEndpoint, commitment, autoRetry, maxRetries, retryDelay, paymentStrategy, usdPrices, logger, spendingPolicy, proofStore, proofTTL, autoPayment, ...fetchOptions } = options;
   
   const client = new X402Client({
     network,
@@ -285,6 +1044,13 @@ export async function x402Fetch(
     commitment,
     autoRetry,
     maxRetries,
+    retryDelay,
+    paymentStrategy,
+    usdPrices,
+    logger,
+    spendingPolicy,
+    proofStore,
+    proofTTL,
   });
 
   return client.fetch(url, { ...fetchOptions, autoPayment });
@@ -0,0 +1,82 @@
+/**
+ * x402 Solana SDK - Credit Store
+ * Prepaid balances bought with top-up payments and spent per request
+ */
+
+/**
+ * Credit ledger, keyed by account (network, token and payer), in base units
+ *
+ * Implement this interface to share balances across server instances or keep
+ * them across restarts. `debit` MUST be atomic: the balance check and the
+ * write happen in one operation, otherwise concurrent requests can overdraw.
+ *
+ * @example Redis
+ * ```typescript
+ * const DEBIT = `
+ *   local balance = tonumber(redis.call("GET", KEYS[1]) or "0")
+ *   if balance < tonumber(ARGV[1]) then return -1 end
+ *   return redis.call("DECRBY", KEYS[1], ARGV[1])`;
+ *
+ * const store: CreditStore = {
+ *   async credit(account, amount) {
+ *     return BigInt(await redis.incrBy(`x402:credit:${account}`, Number(amount)));
+ *   },
+ *   async debit(account, amount) {
+ *     const balance = await redis.eval(DEBIT, {
+ *       keys: [`x402:credit:${account}`],
+ *       arguments: [amount.toString()],
+ *     });
+ *     return balance === -1 ? null : BigInt(balance as number);
+ *   },
+ *   async balance(account) {
+ *     return BigInt((await redis.get(`x402:credit:${account}`)) ?? 0);
+ *   },
+ * };
+ * ```
+ */
+export interface CreditStore {
+  /**
+   * Add to a balance. Returns the new balance.
+   */
+  credit(account: string, amount: bigint): Promise<bigint>;
+
+  /**
+   * Take from a balance if it covers the amount.
+   * Returns the new balance, or null if the balance is insufficient.
+   */
+  debit(account: string, amount: bigint): Promise<bigint | null>;
+
+  /**
+   * Current balance (0 for unknown accounts)
+   */
+  balance(account: string): Promise<bigint>;
+}
+
+/**
+ * In-memory credit store (single process only, forgotten on restart)
+ */
+export class MemoryCreditStore implements CreditStore {
+  private balances = new Map<string, bigint>();
+
+  async credit(account: string, amount: bigint): Promise<bigint> {
+    const balance = (this.balances.get(account) ?? BigInt(0)) + amount;
+    this.balances.set(account, balance);
+    return balance;
+  }
+
+  async debit(account: string, amount: bigint): Promise<bigint | null> {
+    const balance = this.balances.get(account) ?? BigInt(0);
+    if (balance < amount) return null;
+
+    this.balances.set(account, balance - amount);
+    return balance - amount;
+  }
+
+  async balance(account: string): Promise<bigint> {
+    return this.balances.get(account) ?? BigInt(0);
+  }
+
+  clear(): void {
+    this.balances.clear();
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * x402 Solana SDK - Discovery
+ * Lets agents see prices before calling: a discovery document listing every
+ * guarded route (served at /.well-known/x402) and x402 extensions for
+ * OpenAPI documents
+ */
+
+import { Network, PaymentRequirements } from "@shared/x402-types";
+import type { RoutePricing } from "./server";
+import { getExpressPricing } from "./adapters";
+import { matchesRoutePattern } from "./pricing-config";
+
+export const DISCOVERY_PATH = "/.well-known/x402";
+
+/**
+ * A payment option as advertised: the requirements a 402 would carry,
+ * without the per-request fields
+ */
+export type DiscoveryOption = Omit<PaymentRequirements, "requestId" | "quote" | "deadline"> & {
+  description?: string;
+  mimeType?: string;
+};
+
+/**
+ * A guarded route in the discovery document
+ */
+export interface DiscoveryRoute {
+  method: string; // Upper-case, "*" for any method
+  path: string; // ":name" matches one segment, a trailing "*" the rest
+  accepts?: DiscoveryOption[]; // Any one of them pays for a request
+  dynamic?: boolean; // Priced per request (a resolver), so no fixed options
+  free?: boolean; // Excluded from a broader priced pattern
+}
+
+/**
+ * Discovery document, served at /.well-known/x402
+ */
+export interface DiscoveryDocument {
+  x402Version: number;
+  network: Network; // Default network (options may name others)
+  recipient: string;
+  routes: DiscoveryRoute[]; // In match order: the first matching route applies
+}
+
+/**
+ * A route guarded outside the pricing config, e.g. by requirePayment
+ */
+export interface GuardedRoute {
+  method: string;
+  path: string;
+  pricing: RoutePricing<never>;
+}
+
+/**
+ * Parts of an OpenAPI 3 document the extensions touch
+ */
+export interface OpenApiDocument {
+  paths?: Record<string, Record<string, unknown>>;
+  [key: string]: unknown;
+}
+
+const OPENAPI_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+
+/**
+ * Parts of an Express router layer read when listing routes
+ */
+interface ExpressLayer {
+  name?: string;
+  regexp?: RegExp;
+  handle?: { stack?: ExpressLayer[] };
+  route?: {
+    path: string | RegExp | (string | RegExp)[];
+    stack: { method?: string; handle: unknown }[];
+  };
+}
+
+/**
+ * Mount path of a router layer (app.use("/api", router)), or null when it
+ * is not a plain path
+ */
+function getMountPath(layer: ExpressLayer): string | null {
+  if (!layer.regexp || (layer.regexp as RegExp & { fast_slash?: boolean }).fast_slash) {
+    return "";
+  }
+
+  const match = layer.regexp.source.match(/^\^((?:\\\/[\w.~-]+)+)\\\/\?\(\?=\\\/\|\$\)$/);
+  return match ? match[1].replace(/\\\//g, "/") : null;
+}
+
+/**
+ * Routes of an Express app guarded by requirePayment (including routers
+ * mounted at plain paths)
+ */
+export function listExpressRoutes(app: unknown): GuardedRoute[] {
+  const express = app as {
+    _router?: { stack: ExpressLayer[] }; // Express 4
+    router?: { stack: ExpressLayer[] }; // Express 5
+  };
+  const routes: GuardedRoute[] = [];
+
+  const walk = (stack: ExpressLayer[], prefix: string) => {
+    for (const layer of stack) {
+      if (layer.route) {
+        const paths = Array.isArray(layer.route.path) ? layer.route.path : [layer.route.path];
+        for (const handler of layer.route.stack) {
+          const pricing = getExpressPricing(handler.handle);
+          if (!pricing) continue;
+
+          paths
+            .filter((path): path is string => typeof path === "string")
+            .forEach((path) => routes.push({
+              method: handler.method ? handler.method.toUpperCase() : "*",
+              path: `${prefix}${path}`,
+              pricing,
+            }));
+        }
+      } else if (layer.name === "router" && layer.handle?.stack) {
+        const mountPath = getMountPath(layer);
+        if (mountPath !== null) walk(layer.handle.stack, `${prefix}${mountPath}`);
+      }
+    }
+  };
+
+  const router = express._router ?? express.router;
+  if (router) walk(router.stack, "");
+  return routes;
+}
+
+/**
+ * Add x402 pricing to an OpenAPI document: `x-x402-accepts` (or
+ * `x-x402-dynamic`) and a 402 response on each priced operation, and
+ * `x-x402` with the network, recipient and discovery path at the top level.
+ * Returns a copy; the document passed in is left untouched.
+ */
+export function addOpenApiExtensions(
+  openapi: OpenApiDocument,
+  discovery: DiscoveryDocument
+): OpenApiDocument {
+  const document = structuredClone(openapi);
+  document["x-x402"] = {
+    x402Version: discovery.x402Version,
+    network: discovery.network,
+    recipient: discovery.recipient,
+    discovery: DISCOVERY_PATH,
+  };
+
+  Object.entries(document.paths ?? {}).forEach(([openapiPath, item]) => {
+    // "/users/{id}" -> "/users/:id"
+    const path = openapiPath.replace(/\{([^}]+)\}/g, ":$1");
+
+    OPENAPI_METHODS.forEach((method) => {
+      const operation = item[method] as Record<string, unknown> | undefined;
+      if (!operation) return;
+
+      const route = discovery.routes.find(
+        (candidate) =>
+          (candidate.method === "*" || candidate.method === method.toUpperCase()) &&
+          matchesRoutePattern(candidate.path, path, candidate.free)
+      );
+      if (!route || route.free) return;
+
+      if (route.dynamic) {
+        operation["x-x402-dynamic"] = true;
+      } else {
+        operation["x-x402-accepts"] = route.accepts;
+      }
+
+      const responses = (operation.responses ?? {}) as Record<string, unknown>;
+      responses["402"] ??= { description: "Payment required (x402)" };
+      operation.responses = responses;
+    });
+  });
+
+  return document;
+}
@@ -0,0 +1,47 @@
+/**
+ * x402 Solana SDK - Gateway CLI
+ * Runs the paywall gateway from a config file
+ *
+ * Run with: npx x402-gateway --config x402-gateway.yaml
+ */
+
+import { parseArgs } from "util";
+import { loadGatewayConfig, startGateway } from "./gateway";
+
+const USAGE = `Usage: x402-gateway [--config <file>] [--port <port>] [--upstream <url>]
+
+Options:
+  -c, --config    Gateway config (JSON or YAML), default ./x402-gateway.yaml
+  -p, --port      Port to listen on (overrides the config)
+  -u, --upstream  Upstream base URL (overrides the config)
+  -h, --help      Show this help`;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      config: { type: "string", short: "c", default: "x402-gateway.yaml" },
+      port: { type: "string", short: "p" },
+      upstream: { type: "string", short: "u" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const config = loadGatewayConfig(values.config!);
+  if (values.port) config.port = Number(values.port);
+  if (values.upstream) config.upstream = values.upstream;
+
+  const gateway = await startGateway(config);
+  const stop = () => gateway.close(() => process.exit(0));
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,183 @@
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import { AddressInfo } from "net";
+import { Keypair } from "@solana/web3.js";
+import { X402Server, PaymentHandleResult, PaymentInfo } from "./server";
+import { PricingTable } from "./pricing-config";
+import { createGateway } from "./gateway";
+import { silentLogger } from "./logger";
+
+// Upstream recording the request targets it receives. "/status/<code>"
+// answers with that status; "x-charge" sets the reported usage.
+const received: string[] = [];
+const upstream = http.createServer((req, res) => {
+  received.push(req.url ?? "");
+  const headers: Record<string, string> = {};
+  const charge = req.headers["x-charge"];
+  if (typeof charge === "string") headers["x-x402-charge"] = charge;
+  const status = /^\/status\/(\d+)/.exec(req.url ?? "");
+  res.writeHead(status ? Number(status[1]) : 200, headers);
+  res.end("upstream body");
+});
+
+const servers: http.Server[] = [upstream];
+after(() => servers.forEach((server) => server.close()));
+
+async function listen(server: http.Server): Promise<number> {
+  if (!servers.includes(server)) servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return (server.address() as AddressInfo).port;
+}
+
+const upstreamUrl = listen(upstream).then((port) => `http://127.0.0.1:${port}`);
+
+/**
+ * Send a raw request target (fetch would normalize it first)
+ */
+function send(
+  port: number,
+  path: string,
+  headers: Record<string, string> = {}
+): Promise<{ status: number; body: string; headers: http.IncomingHttpHeaders }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: "127.0.0.1", port, path, headers }, (res) => {
+      let body = "";
+      res.on("data", (chunk) => (body += chunk));
+      res.on("end", () => resolve({ status: res.statusCode ?? 0, body, headers: res.headers }));
+    });
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+async function startGateway(): Promise<number> {
+  const server = new X402Server({
+    network: "devnet",
+    recipientAddress: Keypair.generate().publicKey.toBase58(),
+    logger: silentLogger,
+    pricing: {
+      defaults: { token: "SOL" },
+      routes: [
+        { path: "/docs/health", free: true },
+        { path: "/docs/*", amount: "0.001" },
+        { path: "/api/*", amount: "0.001" },
+      ],
+    },
+  });
+  return listen(
+    http.createServer(createGateway({ upstream: await upstreamUrl, server, logger: silentLogger }))
+  );
+}
+
+test("forwards the normalized path that was priced", async () => {
+  const port = await startGateway();
+  received.length = 0;
+
+  const dotted = await send(port, "/public/./a/../b//c?x=1");
+  const encoded = await send(port, "/api/%2e%2e/public");
+  const priced = await send(port, "/public/%2e%2e/api/data");
+
+  assert.equal(dotted.status, 200);
+  assert.equal(encoded.status, 200);
+  assert.equal(priced.status, 402);
+  assert.deepEqual(received, ["/public/b/c?x=1", "/public"]);
+});
+
+test("refuses request targets that are not a plain path", async () => {
+  const port = await startGateway();
+  received.length = 0;
+
+  for (const target of ["//evil.example/api", "/public/..%2fapi/data", "/public\\..\\api", "/a%5Cb"]) {
+    assert.equal((await send(port, target)).status, 400, target);
+  }
+  assert.deepEqual(received, []);
+});
+
+test("matches free exclusions exactly", async () => {
+  const port = await startGateway();
+
+  assert.equal((await send(port, "/docs/health")).status, 200);
+  assert.equal((await send(port, "/DOCS/health")).status, 402);
+  assert.equal((await send(port, "/docs/health/")).status, 402);
+  assert.equal((await send(port, "/docs/other")).status, 402);
+});
+
+/**
+ * Gateway whose every request is an authorized "upto" payment, recording
+ * the amounts settled
+ */
+async function startUptoGateway(settle: (amount: string) => Promise<void>): Promise<number> {
+  const payment = {
+    verified: true,
+    payer: "payer",
+    amount: "1",
+    token: "USDC",
+    scheme: "upto",
+    quantity: 1,
+    requirements: { network: "devnet" },
+    settle: async (amount: string) => {
+      await settle(amount);
+      return { amount, headers: { "X-Payment-Charge": `${amount} USDC` } };
+    },
+  } as unknown as PaymentInfo;
+  const server = {
+    getPricingTable: () => new PricingTable({ routes: [] }),
+    createHandler: () => async (): Promise<PaymentHandleResult> => ({
+      paid: true,
+      payment,
+      headers: {},
+    }),
+  } as unknown as X402Server;
+
+  return listen(
+    http.createServer(createGateway({ upstream: await upstreamUrl, server, logger: silentLogger }))
+  );
+}
+
+test("settles upto payments for the usage the upstream reports", async () => {
+  const settled: string[] = [];
+  const port = await startUptoGateway(async (amount) => {
+    settled.push(amount);
+  });
+
+  const response = await send(port, "/api/generate", { "x-charge": "0.25" });
+
+  assert.equal(response.status, 200);
+  assert.equal(response.body, "upstream body");
+  assert.equal(response.headers["x-payment-charge"], "0.25 USDC");
+  assert.equal(response.headers["x-x402-charge"], undefined);
+  assert.deepEqual(settled, ["0.25"]);
+});
+
+test("charges nothing for failed upstream responses", async () => {
+  const settled: string[] = [];
+  const port = await startUptoGateway(async (amount) => {
+    settled.push(amount);
+  });
+
+  const response = await send(port, "/status/500", { "x-charge": "0.25" });
+
+  assert.equal(response.status, 500);
+  assert.deepEqual(settled, ["0"]);
+});
+
+test("withholds the response when usage is missing, invalid or unsettled", async () => {
+  const settled: string[] = [];
+  const port = await startUptoGateway(async (amount) => {
+    settled.push(amount);
+  });
+  const failing = await startUptoGateway(async () => {
+    throw new Error("Settlement transaction failed");
+  });
+
+  const missing = await send(port, "/api/generate");
+  const invalid = await send(port, "/api/generate", { "x-charge": "-1" });
+  const unsettled = await send(failing, "/api/generate", { "x-charge": "0.25" });
+
+  for (const response of [missing, invalid, unsettled]) {
+    assert.equal(response.status, 502);
+    assert.doesNotMatch(response.body, /upstream body/);
+  }
+  assert.deepEqual(settled, []);
+});
@@ -0,0 +1,347 @@
+/**
+ * x402 Solana SDK - Gateway
+ * Reverse proxy that puts an x402 paywall in front of any HTTP service:
+ * priced routes are paid for at the gateway, then forwarded upstream with
+ * the verified payment as trusted headers
+ */
+
+import http, { IncomingHttpHeaders, IncomingMessage, ServerResponse } from "http";
+import https from "https";
+import { dirname, resolve } from "path";
+import { z } from "zod";
+import { NetworkSchema } from "@shared/x402-types";
+import { X402Server, X402ServerConfig, PaymentInfo } from "./server";
+import { PricingConfigSchema, readConfigFile } from "./pricing-config";
+import { DISCOVERY_PATH } from "./discovery";
+import { Logger, consoleLogger } from "./logger";
+
+/**
+ * Gateway config file (JSON or YAML)
+ *
+ * @example
+ * ```yaml
+ * upstream: http://localhost:3000
+ * port: 8402
+ * network: devnet
+ * recipientAddress: YOUR_ADDRESS
+ * pricing: ./pricing.yaml # Or an inline table
+ * watchPricing: true
+ * headers:
+ *   X-Gateway-Secret: change-me # Lets the upstream reject requests that bypass the gateway
+ * ```
+ */
+export const GatewayConfigSchema = z.object({
+  upstream: z.string().url(), // Base URL requests are forwarded to
+  port: z.number().int().min(0).max(65535).optional(), // Default: 8402
+  host: z.string().optional(),
+  network: NetworkSchema,
+  recipientAddress: z.string(),
+  rpcEndpoint: z.string().url().optional(),
+  wireFormat: z.enum(["native", "x402"]).optional(),
+  requirementsTTL: z.number().positive().optional(),
+  pricing: z.union([z.string(), PricingConfigSchema]), // Table, or a file relative to the config
+  watchPricing: z.boolean().optional(),
+  headers: z.record(z.string()).optional(), // Added to every upstream request
+  discovery: z.boolean().optional(), // Serve /.well-known/x402 (default: true)
+}).strict();
+
+export type GatewayConfig = z.input<typeof GatewayConfigSchema>;
+
+/**
+ * Gateway options
+ */
+export interface GatewayOptions {
+  upstream: string;
+  server: X402Server; // Prices requests from its `pricing` config
+  headers?: Record<string, string>; // Added to every upstream request
+  discovery?: boolean; // Serve /.well-known/x402 (default: true)
+  logger?: Logger;
+}
+
+/**
+ * Headers describing the verified payment, added to upstream requests.
+ * Clients cannot set them: incoming copies are removed.
+ */
+export const TRUSTED_HEADER_PREFIX = "x-x402-";
+
+/**
+ * Upstream response header reporting the amount (token units) to charge
+ * for "upto" payments. Required on 2xx responses; other responses are not
+ * charged.
+ */
+export const CHARGE_HEADER = "x-x402-charge";
+
+// A charge in token units, e.g. "0.25"
+const AMOUNT = /^\d+(\.\d+)?$/;
+
+// Payment credentials consumed by the gateway, never forwarded
+const PAYMENT_HEADERS = [
+  "x-payment",
+  "x-payment-session",
+  "x-payment-pass",
+  "x-payment-subscription",
+];
+
+// Connection-specific headers a proxy must not forward
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+];
+
+/**
+ * Read and validate a gateway config file (.yaml/.yml, otherwise JSON).
+ * A pricing file path is resolved relative to the config file.
+ */
+export function loadGatewayConfig(file: string): z.infer<typeof GatewayConfigSchema> {
+  const result = GatewayConfigSchema.safeParse(readConfigFile(file));
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+    throw new Error(`Invalid gateway config ${file}:\n  ${issues.join("\n  ")}`);
+  }
+
+  const config = result.data;
+  if (typeof config.pricing === "string") {
+    config.pricing = resolve(dirname(file), config.pricing);
+  }
+  return config;
+}
+
+/**
+ * Normalize an origin-form request target ("/path?query"): percent-encoded
+ * dots are decoded, dot segments resolved and repeated slashes collapsed,
+ * so the path that is priced is the path that is forwarded. Returns null
+ * for anything else (absolute or "//" targets, encoded slashes or
+ * backslashes), which must not reach the upstream.
+ */
+function normalizeRequestTarget(target: string): { path: string; query: string } | null {
+  if (!target.startsWith("/") || target.startsWith("//")) {
+    return null;
+  }
+
+  const separator = target.indexOf("?");
+  const rawPath = separator < 0 ? target : target.slice(0, separator);
+  const query = separator < 0 ? "" : target.slice(separator);
+  if (/%2f|%5c|\\/i.test(rawPath)) {
+    return null;
+  }
+
+  const segments: string[] = [];
+  const parts = rawPath.replace(/%2e/gi, ".").split("/").slice(1);
+  parts.forEach((segment, index) => {
+    const last = index === parts.length - 1;
+    if (segment === "..") {
+      segments.pop();
+      if (last) segments.push("");
+    } else if (segment === ".") {
+      if (last) segments.push("");
+    } else if (segment !== "" || last) {
+      segments.push(segment);
+    }
+  });
+
+  return { path: `/${segments.join("/")}`, query };
+}
+
+/**
+ * Trusted headers for a verified payment
+ */
+function getPaymentHeaders(payment: PaymentInfo): Record<string, string> {
+  const headers: Record<string, string> = {
+    [`${TRUSTED_HEADER_PREFIX}payer`]: payment.payer,
+    [`${TRUSTED_HEADER_PREFIX}amount`]: payment.amount,
+    [`${TRUSTED_HEADER_PREFIX}token`]: payment.token,
+    [`${TRUSTED_HEADER_PREFIX}network`]: payment.requirements.network,
+    [`${TRUSTED_HEADER_PREFIX}scheme`]: payment.scheme,
+    [`${TRUSTED_HEADER_PREFIX}quantity`]: String(payment.quantity),
+  };
+  if (payment.proof) headers[`${TRUSTED_HEADER_PREFIX}signature`] = payment.proof.signature;
+  if (payment.subscription) headers[`${TRUSTED_HEADER_PREFIX}subscription`] = payment.subscription;
+  return headers;
+}
+
+/**
+ * Copy headers without the hop-by-hop ones and those listed in `except`
+ */
+function copyHeaders(headers: IncomingHttpHeaders, except: (name: string) => boolean) {
+  const copied: Record<string, string | string[]> = {};
+  Object.entries(headers).forEach(([name, value]) => {
+    if (value !== undefined && !HOP_BY_HOP_HEADERS.includes(name) && !except(name)) {
+      copied[name] = value;
+    }
+  });
+  return copied;
+}
+
+/**
+ * Send a JSON response
+ */
+function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, { ...headers, "content-type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Request listener for a Node HTTP server: paywalls the routes priced in
+ * the server's pricing config and streams everything through to upstream
+ */
+export function createGateway(options: GatewayOptions): http.RequestListener {
+  const { server } = options;
+  const logger = options.logger || consoleLogger;
+  const upstream = new URL(options.upstream);
+  const origin = upstream.origin;
+  const basePath = upstream.pathname.replace(/\/$/, "");
+  const table = server.getPricingTable();
+  const handle = server.createHandler((request) => table.match(request.method, request.path));
+
+  const forward = (
+    req: IncomingMessage,
+    res: ServerResponse,
+    requestTarget: string,
+    payment?: PaymentInfo
+  ) => {
+    // Always the upstream origin: the request target never picks the host
+    const target = new URL(`${origin}${basePath}${requestTarget}`);
+    const headers = {
+      ...copyHeaders(
+        req.headers,
+        (name) => PAYMENT_HEADERS.includes(name) || name.startsWith(TRUSTED_HEADER_PREFIX)
+      ),
+      host: upstream.host,
+      "x-forwarded-for": req.socket.remoteAddress ?? "",
+      "x-forwarded-host": req.headers.host ?? "",
+      "x-forwarded-proto": "encrypted" in req.socket ? "https" : "http",
+      ...options.headers,
+      ...(payment ? getPaymentHeaders(payment) : {}),
+    };
+
+    const client = target.protocol === "https:" ? https : http;
+    const proxied = client.request(target, { method: req.method, headers }, async (response) => {
+      const responseHeaders = copyHeaders(response.headers, (name) => name === CHARGE_HEADER);
+
+      // Usage-based payments: charge what the upstream reports, nothing
+      // for failed requests. Without a valid charge the response is not
+      // delivered, as it could not be billed.
+      if (payment?.settle) {
+        const status = response.statusCode ?? 502;
+        const succeeded = status >= 200 && status < 300;
+        const used = response.headers[CHARGE_HEADER];
+        try {
+          if (succeeded && (typeof used !== "string" || !AMOUNT.test(used))) {
+            throw new Error(`Upstream reported no valid ${CHARGE_HEADER} header`);
+          }
+          const settlement = await payment.settle(succeeded ? (used as string) : "0");
+          Object.assign(responseHeaders, settlement.headers);
+        } catch (error) {
+          logger.error("Gateway settlement failed", {
+            payer: payment.payer,
+            error: error instanceof Error ? error.message : error,
+          });
+          response.resume();
+          return sendJson(res, 502, {
+            error: "Bad gateway",
+            message: "Payment settlement failed",
+          });
+        }
+      }
+
+      res.writeHead(response.statusCode ?? 502, responseHeaders);
+      response.pipe(res);
+    });
+
+    proxied.on("error", (error) => {
+      logger.error("Gateway upstream error", { target: target.toString(), error: error.message });
+      if (!res.headersSent) {
+        sendJson(res, 502, { error: "Bad gateway", message: "Upstream service unavailable" });
+      } else {
+        res.destroy(error);
+      }
+    });
+
+    req.pipe(proxied);
+  };
+
+  return async (req, res) => {
+    const normalized = normalizeRequestTarget(req.url ?? "");
+    if (!normalized) {
+      return sendJson(res, 400, { error: "Bad request", message: "Invalid request target" });
+    }
+    const { path, query } = normalized;
+
+    if (options.discovery !== false && req.method === "GET" && path === DISCOVERY_PATH) {
+      try {
+        return sendJson(res, 200, await server.getDiscoveryDocument());
+      } catch (error) {
+        return sendJson(res, 500, {
+          error: "Discovery error",
+          message: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    const result = await handle({
+      method: req.method ?? "GET",
+      path,
+      url: `${"encrypted" in req.socket ? "https" : "http"}://${req.headers.host}${path}${query}`,
+      headers: req.headers,
+      raw: req,
+    });
+
+    Object.entries(result.headers).forEach(([name, value]) => res.setHeader(name, value));
+    if (!result.paid) {
+      return sendJson(res, result.response402!.status, result.response402!.body);
+    }
+
+    forward(req, res, `${path}${query}`, result.payment);
+  };
+}
+
+/**
+ * Start a gateway from a validated config. Resolves once listening.
+ */
+export async function startGateway(
+  config: z.infer<typeof GatewayConfigSchema>,
+  serverConfig: Partial<X402ServerConfig> = {}
+): Promise<http.Server> {
+  const logger = serverConfig.logger || consoleLogger;
+  const server = new X402Server({
+    network: config.network,
+    recipientAddress: config.recipientAddress,
+    rpcEndpoint: config.rpcEndpoint,
+    wireFormat: config.wireFormat,
+    requirementsTTL: config.requirementsTTL,
+    pricing: config.pricing,
+    watchPricing: config.watchPricing,
+    ...serverConfig,
+  });
+
+  const gateway = http.createServer(
+    createGateway({
+      upstream: config.upstream,
+      server,
+      headers: config.headers,
+      discovery: config.discovery,
+      logger,
+    })
+  );
+
+  await new Promise<void>((ready) => gateway.listen(config.port ?? 8402, config.host, ready));
+  gateway.on("close", () => server.getPricingTable().close());
+  logger.info("x402 gateway listening", {
+    address: gateway.address(),
+    upstream: config.upstream,
+  });
+  return gateway;
+}
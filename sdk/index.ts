@@ -48,8 +48,43 @@ export {
   type X402FetchWrapperOptions,
   type WalletAdapter,
   type Signer,
+  type PaymentApproval,
+  type PaymentApprovalContext,
+  type PaymentApprovalHandler,
+  type HeldSubscription,
 } from "./client";
 
+// Spending policy
+export {
+  SpendingGuard,
+  type SpendingPolicy,
+  type BudgetLimits,
+  type TokenLimits,
+  type SpendReservation,
+} from "./spending-policy";
+export {
+  MemorySpendStore,
+  type SpendStore,
+  type SpendRecord,
+} from "./spend-store";
+
+// Unused payment proofs
+export {
+  MemoryProofStore,
+  type ProofStore,
+  type StoredProof,
+} from "./proof-store";
+
+// Payment option selection
+export {
+  selectPaymentOption,
+  estimateUsdValue,
+  hasSufficientBalance,
+  DEFAULT_USD_PRICES,
+  type PaymentSelectionStrategy,
+  type PaymentSelectionContext,
+} from "./payment-selection";
+
 // Server exports
 export {
   X402Server,
@@ -57,8 +92,169 @@ export {
   x402Middleware,
   type X402ServerConfig,
   type PaymentOptions,
+  type SettlementResult,
+  type PaymentInfo,
+  type PaymentRequest,
+  type PaymentResponse,
+  type PaymentHandleResult,
+  type PaymentResolver,
+  type RoutePricing,
+  type CreditOptions,
+  type PassOptions,
+  type SubscriptionPlan,
+  type SubscriptionOptions,
 } from "./server";
 
+// Framework adapters
+export {
+  createExpressMiddleware,
+  createExpressDiscovery,
+  createFastifyPreHandler,
+  fastifyX402,
+  createKoaMiddleware,
+  createHonoMiddleware,
+  withX402Payment,
+  toPaymentRequest,
+  type ExpressPricing,
+  type FastifyRequestLike,
+  type FastifyReplyLike,
+  type FastifyRouteLike,
+  type KoaContextLike,
+  type HonoContextLike,
+} from "./adapters";
+
+// Discovery
+export {
+  DISCOVERY_PATH,
+  listExpressRoutes,
+  addOpenApiExtensions,
+  type DiscoveryDocument,
+  type DiscoveryRoute,
+  type DiscoveryOption,
+  type GuardedRoute,
+  type OpenApiDocument,
+} from "./discovery";
+
+// Signer loaders
+export {
+  loadSigner,
+  loadSignerFromEnv,
+  loadKeypairFile,
+  loadKeystore,
+  keypairFromSecret,
+  keypairFromMnemonic,
+  encryptKeystore,
+  decryptKeystore,
+  KeystoreSchema,
+  DEFAULT_KEYPAIR_PATH,
+  DEFAULT_DERIVATION_PATH,
+  type Keystore,
+  type MnemonicOptions,
+  type LoadSignerOptions,
+  type SecretKeyOptions,
+} from "./signer-loader";
+
+// Remote signers (KMS, HSM, signing services)
+export {
+  createCallbackSigner,
+  createHttpSigner,
+  createSigningService,
+  MockRemoteSigner,
+  isRemoteSigner,
+  toTransactionSigner,
+  type RemoteSigner,
+  type SigningContext,
+  type TransactionSigner,
+  type HttpSignerOptions,
+  type SigningServiceOptions,
+  type SigningRequest,
+} from "./remote-signer";
+
+// Paywall gateway (reverse proxy)
+export {
+  createGateway,
+  startGateway,
+  loadGatewayConfig,
+  GatewayConfigSchema,
+  TRUSTED_HEADER_PREFIX,
+  CHARGE_HEADER,
+  type GatewayConfig,
+  type GatewayOptions,
+} from "./gateway";
+
+// Declarative route pricing
+export {
+  PricingTable,
+  PricingConfigSchema,
+  PricingRouteSchema,
+  PricingOptionSchema,
+  matchesRoutePattern,
+  type PricingConfig,
+  type PricingRoute,
+  type PricingOption,
+  type PricingTableOptions,
+  type PricedRoute,
+} from "./pricing-config";
+
+// Prepaid credit
+export {
+  MemoryCreditStore,
+  type CreditStore,
+} from "./credit-store";
+
+// Subscriptions
+export {
+  MemorySubscriptionStore,
+  type SubscriptionStore,
+  type Subscription,
+  type SubscriptionStatus,
+} from "./subscription-store";
+
+// Access passes
+export {
+  matchesPassScope,
+  type AccessPassPayload,
+} from "./access-pass";
+
+// x402 specification wire format
+export {
+  toSpecRequirements,
+  fromSpecRequirements,
+  toSpecNetwork,
+  fromSpecNetwork,
+  createSpecPaymentRequiredResponse,
+  parsePaymentRequiredBody,
+  encodePaymentHeader,
+  decodePaymentHeader,
+  encodePaymentResponseHeader,
+  decodePaymentResponseHeader,
+  type WireFormat,
+  type SpecResourceInfo,
+} from "./wire-format";
+
+// Signed quotes
+export {
+  createHmacSigner,
+  createEd25519Signer,
+  encodeSignedToken,
+  decodeSignedToken,
+  peekSignedToken,
+  type TokenSigner,
+} from "./signing";
+
+// Logging
+export {
+  consoleLogger,
+  silentLogger,
+  type Logger,
+} from "./logger";
+
+// Replay protection
+export {
+  MemorySignatureStore,
+  type SignatureStore,
+} from "./signature-store";
+
 // Utilities - All Solana transaction helpers
 export {
   createConnection,
@@ -66,14 +262,55 @@ export {
   createPaymentTransaction,
   createSOLPaymentTransaction,
   createTokenPaymentTransaction,
+  createTokenApprovalTransaction,
+  createRevokeTransaction,
+  getDelegatedAmount,
   signAndSendTransaction,
   confirmTransaction,
   getTransactionStatus,
   verifyPaymentTransaction, // SECURITY CRITICAL: Use for server-side validation
+  verifyPaymentAuthorization,
+  settlePayment,
   amountToBaseUnits,
   baseUnitsToAmount,
+  getPaymentMemo,
+  getTokenMint,
+  isNativeSol,
+  resolvePaymentMint,
+  resolvePaymentToken,
+  getRequirementsDecimals,
+  getPaymentBalance,
+  getTransactionSignature,
+  createMemoInstruction,
+  MEMO_PROGRAM_ID,
+  verificationFailure,
+  TRANSIENT_VERIFICATION_FAILURES,
+  type PaymentAuthorization,
+  type VerifiedPayment,
+  type VerificationResult,
+  type VerificationFailure,
 } from "./solana-utils";
 
+// Retry helpers
+export {
+  withRetry,
+  backoffDelay,
+  isRetryableRpcError,
+  isBlockhashExpiredError,
+  type RetryOptions,
+} from "./retry";
+
+// Token registry - Custom SPL and Token-2022 mints
+export {
+  TokenRegistry,
+  tokenRegistry,
+  getMintInfo,
+  calculateGrossAmount,
+  WRAPPED_SOL_MINT,
+  type TokenInfo,
+  type MintInfo,
+} from "./token-registry";
+
 // Types
 export {
   type PaymentRequirements,
@@ -82,19 +319,36 @@ export {
   type TokenType,
   type PaymentScheme,
   type TransactionStatus,
+  type VerificationFailureReason,
   type SDKConfig,
   type X402Response,
+  type SpecPaymentRequirements,
+  type SpecPaymentRequiredResponse,
+  type SpecPaymentPayload,
+  type SpecSettlementResponse,
   PaymentRequirementsSchema,
   PaymentProofSchema,
   NetworkSchema,
   TokenTypeSchema,
   PaymentSchemeSchema,
   TransactionStatusSchema,
+  VerificationFailureReasonSchema,
   SDKConfigSchema,
+  SpecPaymentRequirementsSchema,
+  SpecPaymentRequiredResponseSchema,
+  SpecPaymentPayloadSchema,
+  SpecSettlementResponseSchema,
+  X402_VERSION,
   X402Error,
   PaymentRequiredError,
   TransactionFailedError,
   InvalidPaymentProofError,
+  PaymentAlreadyConsumedError,
+  PaymentVerificationError,
+  BudgetExceededError,
+  PaymentDeclinedError,
+  PaidButFailedError,
+  type SpendingLimit,
 } from "@shared/x402-types";
 
 // Version
@@ -0,0 +1,35 @@
+/**
+ * x402 Solana SDK - Logging
+ * Minimal logger interface so applications can route SDK logs to their own
+ * logging stack (pino, winston, ...) or silence them
+ */
+
+/**
+ * Logger used by the client and server
+ */
+export interface Logger {
+  debug(message: string, context?: Record<string, unknown>): void;
+  info(message: string, context?: Record<string, unknown>): void;
+  warn(message: string, context?: Record<string, unknown>): void;
+  error(message: string, context?: Record<string, unknown>): void;
+}
+
+/**
+ * Logs to the console (debug messages are dropped)
+ */
+export const consoleLogger: Logger = {
+  debug: () => {},
+  info: (message, context) => console.info(message, context ?? ""),
+  warn: (message, context) => console.warn(message, context ?? ""),
+  error: (message, context) => console.error(message, context ?? ""),
+};
+
+/**
+ * Discards all log messages
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
@@ -0,0 +1,144 @@
+/**
+ * x402 Solana SDK - Payment Option Selection
+ * Strategies for choosing among the payment options a server accepts
+ */
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import { PaymentRequirements } from "@shared/x402-types";
+import {
+  baseUnitsToAmount,
+  getPaymentBalance,
+  isNativeSol,
+  resolvePaymentToken,
+} from "./solana-utils";
+
+/**
+ * Lamports kept aside for the transaction fee when checking SOL balances
+ */
+const FEE_RESERVE_LAMPORTS = BigInt(10_000);
+
+/**
+ * USD prices by token symbol, used when none are configured (stablecoins only)
+ */
+export const DEFAULT_USD_PRICES: Record<string, number> = {
+  USDC: 1,
+  USDT: 1,
+};
+
+/**
+ * Information available to selection strategies
+ */
+export interface PaymentSelectionContext {
+  connection: Connection;
+  payer: PublicKey;
+  usdPrices: Record<string, number>;
+}
+
+/**
+ * How the client picks one of several accepted payment options
+ * - "first": the server's first option (default)
+ * - "cheapest": lowest USD value, using the configured prices
+ * - "has-balance": first option the wallet can afford
+ * - { preferTokens }: first option in the given token order, else the first option
+ * - function: custom selection
+ */
+export type PaymentSelectionStrategy =
+  | "first"
+  | "cheapest"
+  | "has-balance"
+  | { preferTokens: string[] }
+  | ((
+      options: PaymentRequirements[],
+      context: PaymentSelectionContext
+    ) => PaymentRequirements | Promise<PaymentRequirements>);
+
+/**
+ * Estimate the USD value of a payment option (null if the token has no
+ * price or cannot be identified). The token is identified by mint, not by
+ * the server's label, so a server cannot pass off a token as a stablecoin.
+ */
+export async function estimateUsdValue(
+  connection: Connection,
+  requirements: PaymentRequirements,
+  usdPrices: Record<string, number>
+): Promise<number | null> {
+  let resolved: { token: string; decimals: number };
+  try {
+    resolved = await resolvePaymentToken(connection, requirements);
+  } catch (error) {
+    return null;
+  }
+
+  const price = usdPrices[resolved.token];
+  if (price === undefined) return null;
+
+  return Number(baseUnitsToAmount(BigInt(requirements.amount), resolved.decimals)) * price;
+}
+
+/**
+ * Check whether the payer can cover a payment option
+ */
+export async function hasSufficientBalance(
+  connection: Connection,
+  payer: PublicKey,
+  requirements: PaymentRequirements
+): Promise<boolean> {
+  const balance = await getPaymentBalance(connection, payer, requirements);
+
+  const required = BigInt(requirements.amount) +
+    (isNativeSol(requirements) ? FEE_RESERVE_LAMPORTS : BigInt(0));
+
+  return balance >= required;
+}
+
+/**
+ * Pick one payment option according to a strategy.
+ * Returns null if no option satisfies the strategy.
+ */
+export async function selectPaymentOption(
+  options: PaymentRequirements[],
+  strategy: PaymentSelectionStrategy,
+  context: PaymentSelectionContext
+): Promise<PaymentRequirements | null> {
+  if (options.length === 0) return null;
+
+  if (typeof strategy === "function") {
+    return strategy(options, context);
+  }
+
+  if (strategy === "first") {
+    return options[0];
+  }
+
+  if (strategy === "cheapest") {
+    const estimates = await Promise.all(
+      options.map((option) => estimateUsdValue(context.connection, option, context.usdPrices))
+    );
+    const priced = options
+      .map((option, index) => ({ option, usd: estimates[index] }))
+      .filter((entry): entry is { option: PaymentRequirements; usd: number } =>
+        entry.usd !== null
+      )
+      .sort((a, b) => a.usd - b.usd);
+
+    // Without prices there is nothing to compare; keep the server's order
+    return priced.length > 0 ? priced[0].option : options[0];
+  }
+
+  if (strategy === "has-balance") {
+    for (const option of options) {
+      if (await hasSufficientBalance(context.connection, context.payer, option)) {
+        return option;
+      }
+    }
+    return null;
+  }
+
+  for (const token of strategy.preferTokens) {
+    const option = options.find((candidate) => candidate.token === token);
+    if (option) return option;
+  }
+
+  // None of the preferred tokens is offered
+  return options[0];
+}
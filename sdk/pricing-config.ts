@@ -0,0 +1,253 @@
+/**
+ * x402 Solana SDK - Pricing Config
+ * Declarative route pricing: method + path patterns mapped to payment
+ * options, from a TS object or a JSON/YAML file (hot reloadable)
+ */
+
+import { readFileSync, watchFile, unwatchFile } from "fs";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { NetworkSchema, PaymentSchemeSchema } from "@shared/x402-types";
+import type { PaymentOptions } from "./server";
+import { Logger, consoleLogger } from "./logger";
+
+const AmountSchema = z.string().regex(/^\d+(\.\d+)?$/, "Expected a decimal amount, e.g. \"0.01\"");
+
+/**
+ * Payment option fields allowed in the config (per-request fields such as
+ * requestId and deadline are set by the server)
+ */
+export const PricingOptionSchema = z.object({
+  amount: AmountSchema,
+  token: z.string(),
+  mint: z.string().optional(),
+  network: NetworkSchema.optional(),
+  scheme: PaymentSchemeSchema.optional(),
+  memo: z.string().optional(),
+  maxQuantity: z.number().int().min(1).optional(),
+  topUp: AmountSchema.optional(),
+  pass: z.object({
+    duration: z.number().positive(),
+    scope: z.string().optional(),
+    maxUses: z.number().int().min(1).optional(),
+  }).strict().optional(),
+  subscription: z.string().optional(),
+  description: z.string().optional(),
+  mimeType: z.string().optional(),
+}).strict();
+
+/**
+ * One priced route. Routes are matched in order; the first match wins.
+ */
+export const PricingRouteSchema = z.object({
+  // "/api/data", "/api/users/:id" (one segment) or "/api/premium/*" (prefix)
+  path: z.string().startsWith("/"),
+  method: z.union([z.string(), z.array(z.string())]).optional(), // Any method when omitted
+  free: z.boolean().optional(), // Let matching requests through (e.g. exclusions before a "*")
+  accepts: z.array(PricingOptionSchema.partial()).min(1).optional(), // Several options to choose from
+}).merge(PricingOptionSchema.partial()).strict();
+
+export const PricingConfigSchema = z.object({
+  defaults: PricingOptionSchema.partial().optional(), // Merged into every option
+  routes: z.array(PricingRouteSchema),
+}).strict();
+
+export type PricingOption = z.infer<typeof PricingOptionSchema>;
+export type PricingRoute = z.input<typeof PricingRouteSchema>;
+export type PricingConfig = z.input<typeof PricingConfigSchema>;
+
+/**
+ * A validated route, ready to match
+ */
+export interface PricedRoute {
+  methods?: string[]; // Upper-case
+  pattern: string;
+  accepted: PaymentOptions[] | null; // null = free
+}
+
+/**
+ * Pricing table options
+ */
+export interface PricingTableOptions {
+  watch?: boolean; // Reload the file when it changes (file sources only)
+  validate?: (accepted: PaymentOptions[]) => void; // Extra checks, e.g. against the server config
+  logger?: Logger;
+}
+
+/**
+ * Check whether a route pattern covers a path.
+ * ":name" matches one path segment; a trailing "*" matches the rest.
+ * Like Express's default (non-strict, case-insensitive) routing, case and
+ * a trailing slash are ignored, so "/API/data/" is priced as "/api/data".
+ * `exact` makes both significant, for exclusions that must not cover more
+ * paths than a case-sensitive upstream serves for free.
+ */
+export function matchesRoutePattern(pattern: string, path: string, exact = false): boolean {
+  const prefix = pattern.endsWith("*");
+  const fold = (value: string) => (exact ? value : value.toLowerCase());
+  const expected = fold(prefix ? pattern.slice(0, -1) : pattern).split("/");
+  const trimmed = !exact && !prefix && path.length > 1 ? path.replace(/\/$/, "") : path;
+  const actual = fold(trimmed).split("/");
+
+  if (prefix ? actual.length < expected.length : actual.length !== expected.length) {
+    return false;
+  }
+
+  return expected.every((segment, index) => {
+    if (prefix && index === expected.length - 1) {
+      return actual[index].startsWith(segment);
+    }
+    return segment.startsWith(":") ? actual[index] !== "" : segment === actual[index];
+  });
+}
+
+/**
+ * Read a config file (.yaml/.yml, otherwise JSON)
+ */
+export function readConfigFile(file: string): unknown {
+  const text = readFileSync(file, "utf8");
+  return /\.ya?ml$/i.test(file) ? parseYaml(text) : JSON.parse(text);
+}
+
+/**
+ * Validate a pricing config and merge defaults into each route's options.
+ * Throws listing every schema problem, or naming the first invalid route.
+ */
+function parsePricingConfig(
+  config: unknown,
+  validate?: (accepted: PaymentOptions[]) => void
+): PricedRoute[] {
+  const result = PricingConfigSchema.safeParse(config);
+  if (!result.success) {
+    const issues = result.error.issues.map(
+      (issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`
+    );
+    throw new Error(`Invalid pricing config:\n  ${issues.join("\n  ")}`);
+  }
+
+  const { defaults, routes } = result.data;
+  return routes.map(({ path, method, free, accepts, ...option }, index) => {
+    const methods = method === undefined
+      ? undefined
+      : (Array.isArray(method) ? method : [method]).map((name) => name.toUpperCase());
+    if (free) {
+      return { methods, pattern: path, accepted: null };
+    }
+
+    const accepted = (accepts ?? [option]).map((entry, position) => {
+      const merged = PricingOptionSchema.safeParse({ ...defaults, ...entry });
+      if (!merged.success) {
+        const where = accepts ? `routes.${index}.accepts.${position}` : `routes.${index}`;
+        throw new Error(
+          `Invalid pricing config: ${where} (${path}): ` +
+          merged.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join(", ")
+        );
+      }
+      return merged.data as PaymentOptions;
+    });
+
+    try {
+      validate?.(accepted);
+    } catch (error) {
+      throw new Error(
+        `Invalid pricing config: routes.${index} (${path}): ` +
+        (error instanceof Error ? error.message : String(error))
+      );
+    }
+    return { methods, pattern: path, accepted };
+  });
+}
+
+/**
+ * Route pricing looked up per request
+ *
+ * @example
+ * ```yaml
+ * defaults:
+ *   token: USDC
+ * routes:
+ *   - path: /api/premium/health
+ *     free: true
+ *   - path: /api/premium/*
+ *     method: GET
+ *     amount: "0.01"
+ *     description: Premium market data
+ *   - path: /api/ai/generate
+ *     method: POST
+ *     amount: "0.5"
+ *     scheme: upto
+ * ```
+ */
+export class PricingTable {
+  private routes: PricedRoute[];
+  private file?: string;
+  private options: PricingTableOptions;
+  private logger: Logger;
+
+  /**
+   * @param source Config object, or path of a JSON/YAML config file
+   */
+  constructor(source: PricingConfig | string, options: PricingTableOptions = {}) {
+    this.options = options;
+    this.logger = options.logger || consoleLogger;
+
+    if (typeof source === "string") {
+      this.file = source;
+      this.routes = parsePricingConfig(readConfigFile(source), options.validate);
+      if (options.watch) {
+        watchFile(source, { persistent: false, interval: 1000 }, () => this.reload());
+      }
+    } else {
+      this.routes = parsePricingConfig(source, options.validate);
+    }
+  }
+
+  /**
+   * Options for a request: null when it is free or no route matches.
+   * Free routes match exactly (case and trailing slash included).
+   */
+  match(method: string, path: string): PaymentOptions[] | null {
+    const route = this.routes.find(
+      (candidate) =>
+        (!candidate.methods || candidate.methods.includes(method.toUpperCase())) &&
+        matchesRoutePattern(candidate.pattern, path, candidate.accepted === null)
+    );
+    return route?.accepted ?? null;
+  }
+
+  /**
+   * Routes in match order
+   */
+  getRoutes(): PricedRoute[] {
+    return this.routes;
+  }
+
+  /**
+   * Re-read the config file. An invalid file is logged and the previous
+   * pricing kept.
+   */
+  reload(): boolean {
+    if (!this.file) return false;
+
+    try {
+      this.routes = parsePricingConfig(readConfigFile(this.file), this.options.validate);
+      this.logger.info("Pricing config reloaded", { file: this.file, routes: this.routes.length });
+      return true;
+    } catch (error) {
+      this.logger.error("Pricing config reload failed, keeping previous pricing", {
+        file: this.file,
+        error: error instanceof Error ? error.message : error,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Stop watching the config file
+   */
+  close(): void {
+    if (this.file && this.options.watch) {
+      unwatchFile(this.file);
+    }
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * x402 Solana SDK - Proof Store
+ * Remembers payment proofs the client has not yet had accepted, so a failed
+ * paid request can be retried with the same proof instead of paying again
+ */
+
+import { PaymentProof, PaymentScheme } from "@shared/x402-types";
+import { WireFormat } from "./wire-format";
+
+/**
+ * A payment proof and how to present it
+ */
+export interface StoredProof {
+  proof: PaymentProof;
+  format: WireFormat;
+  scheme: PaymentScheme;
+  // Set once presenting it failed (network error, 5xx). Until then the
+  // paying request may still be presenting it, so it is not re-presented.
+  failed?: boolean;
+}
+
+/**
+ * Short-lived proof storage, keyed by request method and URL.
+ * Implement it to keep unused proofs across restarts.
+ */
+export interface ProofStore {
+  get(key: string): Promise<StoredProof | null>;
+  set(key: string, entry: StoredProof, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * In-memory proof store
+ */
+export class MemoryProofStore implements ProofStore {
+  private entries = new Map<string, { entry: StoredProof; expiresAt: number }>();
+
+  async get(key: string): Promise<StoredProof | null> {
+    const stored = this.entries.get(key);
+    if (!stored) return null;
+
+    if (Date.now() > stored.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return stored.entry;
+  }
+
+  async set(key: string, entry: StoredProof, ttlSeconds: number): Promise<void> {
+    this.entries.set(key, { entry, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,131 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Keypair, PublicKey, SystemProgram, Transaction } from "@solana/web3.js";
+import {
+  MockRemoteSigner,
+  SigningRequest,
+  createHttpSigner,
+  createSigningService,
+  toTransactionSigner,
+} from "./remote-signer";
+
+const keypair = Keypair.generate();
+const allowed = Keypair.generate().publicKey;
+
+function transfer(from: PublicKey, to: PublicKey, lamports: number): Transaction {
+  const transaction = new Transaction().add(
+    SystemProgram.transfer({ fromPubkey: from, toPubkey: to, lamports })
+  );
+  transaction.recentBlockhash = "11111111111111111111111111111111";
+  transaction.feePayer = from;
+  return transaction;
+}
+
+/**
+ * Custody policy: only transfers to `allowed`, decided on the transaction
+ */
+function onlyToAllowed({ transaction }: SigningRequest): boolean {
+  return transaction.instructions.every(
+    (instruction) =>
+      instruction.programId.equals(SystemProgram.programId) &&
+      instruction.keys[1]?.pubkey.equals(allowed)
+  );
+}
+
+function sign(service: (request: Request) => Promise<Response>, body: unknown) {
+  return service(
+    new Request("http://signer/sign", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+function message(transaction: Transaction): string {
+  return transaction.serializeMessage().toString("base64");
+}
+
+test("signs transactions the policy approves, decided on the decoded transaction", async () => {
+  const requests: SigningRequest[] = [];
+  const service = createSigningService(new MockRemoteSigner(keypair), {
+    approve: (request) => {
+      requests.push(request);
+      return onlyToAllowed(request);
+    },
+  });
+
+  const approved = await sign(service, {
+    message: message(transfer(keypair.publicKey, allowed, 1000)),
+  });
+  // The context claims an allowed payment; the transaction pays someone else
+  const refused = await sign(service, {
+    message: message(transfer(keypair.publicKey, Keypair.generate().publicKey, 1000)),
+    context: { purpose: "payment", requirements: { recipient: allowed.toBase58() } },
+  });
+
+  assert.equal(approved.status, 200);
+  assert.equal(refused.status, 403);
+  assert.equal(requests.length, 2);
+  assert.equal(requests[0].transaction.instructions.length, 1);
+});
+
+test("refuses messages that are not transactions needing the key", async () => {
+  let asked = false;
+  const service = createSigningService(new MockRemoteSigner(keypair), {
+    approve: () => (asked = true),
+  });
+
+  const garbage = await sign(service, { message: Buffer.from("sign me").toString("base64") });
+  const otherKey = await sign(service, {
+    message: message(transfer(Keypair.generate().publicKey, allowed, 1000)),
+  });
+  const unknown = await sign(service, {
+    publicKey: Keypair.generate().publicKey.toBase58(),
+    message: message(transfer(keypair.publicKey, allowed, 1000)),
+  });
+
+  assert.equal(garbage.status, 400);
+  assert.equal(otherKey.status, 400);
+  assert.equal(unknown.status, 404);
+  assert.equal(asked, false);
+});
+
+test("refuses unauthenticated callers", async () => {
+  const service = createSigningService(new MockRemoteSigner(keypair), {
+    authenticate: (request) => request.headers.get("authorization") === "Bearer token",
+  });
+
+  const response = await sign(service, {
+    message: message(transfer(keypair.publicKey, allowed, 1000)),
+  });
+
+  assert.equal(response.status, 401);
+});
+
+test("pays through an HTTP signer backed by the service", async () => {
+  const service = createSigningService(new MockRemoteSigner(keypair), {
+    authenticate: (request) => request.headers.get("authorization") === "Bearer token",
+    approve: onlyToAllowed,
+  });
+  const remote = await createHttpSigner({
+    url: "http://signer",
+    headers: { authorization: "Bearer token" },
+    fetch: async (input, init) => service(new Request(input, init)),
+  });
+  const signer = toTransactionSigner(remote);
+
+  assert.ok(remote.publicKey.equals(keypair.publicKey));
+
+  const signed = await signer.signTransaction(transfer(keypair.publicKey, allowed, 1000), {
+    purpose: "payment",
+  });
+  assert.ok(signed.verifySignatures());
+
+  await assert.rejects(
+    signer.signTransaction(transfer(keypair.publicKey, Keypair.generate().publicKey, 1000), {
+      purpose: "payment",
+    }),
+    { code: "SIGNING_REFUSED" }
+  );
+});
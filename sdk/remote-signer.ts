@@ -0,0 +1,292 @@
+/**
+ * x402 Solana SDK - Remote Signers
+ * Sign payments with keys held elsewhere (KMS, HSM, signing service): the
+ * client only sends the transaction message and receives its signature
+ */
+
+import { createPrivateKey, sign, KeyObject } from "crypto";
+import { Keypair, Message, PublicKey, Transaction } from "@solana/web3.js";
+import { PaymentRequirements, X402Error } from "@shared/x402-types";
+import type { Signer } from "./client";
+
+/**
+ * What a signature is for, passed to remote signers as a hint for logging
+ * and review. It is not bound to the signed bytes: custody policy must be
+ * decided on the transaction itself (see SigningRequest).
+ */
+export interface SigningContext {
+  purpose: "payment" | "revoke"; // Pay requirements, or revoke a subscription delegation
+  requirements?: PaymentRequirements; // What is being paid (or revoked)
+}
+
+/**
+ * Signer whose key never leaves its custody: signs the serialized
+ * transaction message (ed25519) and returns the 64-byte signature
+ */
+export interface RemoteSigner {
+  publicKey: PublicKey;
+  signMessage(message: Uint8Array, context?: SigningContext): Promise<Uint8Array>;
+}
+
+/**
+ * Any signer reduced to one operation, so the client treats them alike
+ */
+export interface TransactionSigner {
+  publicKey: PublicKey;
+  signTransaction(transaction: Transaction, context: SigningContext): Promise<Transaction>;
+}
+
+/**
+ * Remote signer from a callback (KMS SDK call, IPC, ...)
+ */
+export function createCallbackSigner(
+  publicKey: PublicKey | string,
+  signMessage: (message: Uint8Array, context?: SigningContext) => Promise<Uint8Array>
+): RemoteSigner {
+  return {
+    publicKey: typeof publicKey === "string" ? new PublicKey(publicKey) : publicKey,
+    signMessage,
+  };
+}
+
+/**
+ * HTTP signing service options
+ */
+export interface HttpSignerOptions {
+  url: string; // Service base URL
+  publicKey?: PublicKey | string; // Fetched from the service when omitted
+  headers?: Record<string, string>; // e.g. Authorization
+  timeout?: number; // ms (default: 10000)
+  fetch?: typeof fetch; // Custom fetch (tests, proxies)
+}
+
+/**
+ * Remote signer backed by a signing service speaking the reference protocol:
+ *
+ * - `GET  {url}/public-key` → `{ "publicKey": "<base58>" }`
+ * - `POST {url}/sign` with `{ "publicKey": "<base58>", "message": "<base64>",
+ *   "context": { "purpose": "payment", "requirements": {...} } }`
+ *   → `{ "signature": "<base64>" }`, or 403 `{ "error": "..." }` when refused
+ */
+export async function createHttpSigner(options: HttpSignerOptions): Promise<RemoteSigner> {
+  const base = options.url.replace(/\/$/, "");
+  const fetchImpl = options.fetch ?? fetch;
+
+  const call = async (path: string, init: RequestInit = {}) => {
+    let response: Response;
+    try {
+      response = await fetchImpl(`${base}${path}`, {
+        ...init,
+        headers: { "content-type": "application/json", ...options.headers },
+        signal: AbortSignal.timeout(options.timeout ?? 10000),
+      });
+    } catch (error) {
+      throw new X402Error(
+        `Signing service unreachable: ${error instanceof Error ? error.message : error}`,
+        "REMOTE_SIGNING_FAILED",
+        error
+      );
+    }
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new X402Error(
+        `Signing service returned ${response.status}: ${body.error ?? response.statusText}`,
+        response.status === 403 ? "SIGNING_REFUSED" : "REMOTE_SIGNING_FAILED",
+        body
+      );
+    }
+    return body as Record<string, unknown>;
+  };
+
+  const publicKey = options.publicKey
+    ? new PublicKey(options.publicKey)
+    : new PublicKey(String((await call("/public-key")).publicKey));
+
+  return {
+    publicKey,
+    async signMessage(message, context) {
+      const { signature } = await call("/sign", {
+        method: "POST",
+        body: JSON.stringify({
+          publicKey: publicKey.toBase58(),
+          message: Buffer.from(message).toString("base64"),
+          context,
+        }),
+      });
+      if (typeof signature !== "string") {
+        throw new X402Error("Signing service returned no signature", "REMOTE_SIGNING_FAILED");
+      }
+      return Buffer.from(signature, "base64");
+    },
+  };
+}
+
+/**
+ * A signature request as seen by the signing service's policy.
+ * `transaction` is decoded from the bytes that will be signed, so it is
+ * what the signature authorizes. `context` is whatever the caller claimed
+ * and cannot be trusted: a compromised agent can describe a harmless
+ * payment while sending a message that drains the wallet.
+ */
+export interface SigningRequest {
+  transaction: Transaction; // Decoded from `message`: check its instructions
+  message: Uint8Array;
+  context?: SigningContext; // Caller-supplied, untrusted (logging, hints only)
+}
+
+/**
+ * Signing service options
+ */
+export interface SigningServiceOptions {
+  // Check the caller (e.g. its Authorization header); false answers 401
+  authenticate?: (request: Request) => boolean | Promise<boolean>;
+  // Custody policy per signature (allowed recipients, amount caps, ...),
+  // decided on `request.transaction`; false answers 403
+  approve?: (request: SigningRequest) => boolean | Promise<boolean>;
+}
+
+/**
+ * Reference signing service for the HTTP protocol, as a Fetch API handler
+ * (Node, Workers, Deno, Bun). Signs with any RemoteSigner, e.g. a KMS
+ * callback signer or a MockRemoteSigner.
+ */
+export function createSigningService(
+  signer: RemoteSigner,
+  options: SigningServiceOptions = {}
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    const path = new URL(request.url).pathname;
+
+    if (options.authenticate && !(await options.authenticate(request))) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (request.method === "GET" && path.endsWith("/public-key")) {
+      return Response.json({ publicKey: signer.publicKey.toBase58() });
+    }
+
+    if (request.method === "POST" && path.endsWith("/sign")) {
+      const body = await request.json().catch(() => null);
+      if (!body || typeof body.message !== "string") {
+        return Response.json({ error: "Expected { publicKey, message, context }" }, { status: 400 });
+      }
+      if (body.publicKey && body.publicKey !== signer.publicKey.toBase58()) {
+        return Response.json({ error: "Unknown public key" }, { status: 404 });
+      }
+
+      // Only sign transaction messages that need this key's signature
+      const message = Buffer.from(body.message, "base64");
+      let decoded: Message;
+      try {
+        decoded = Message.from(message);
+      } catch (error) {
+        return Response.json({ error: "Message is not a transaction" }, { status: 400 });
+      }
+      const signers = decoded.accountKeys.slice(0, decoded.header.numRequiredSignatures);
+      if (!signers.some((key) => key.equals(signer.publicKey))) {
+        return Response.json({ error: "Transaction does not need this key" }, { status: 400 });
+      }
+
+      const transaction = Transaction.populate(decoded);
+      const approved = !options.approve ||
+        (await options.approve({ transaction, message, context: body.context }));
+      if (!approved) {
+        return Response.json({ error: "Signature refused by policy" }, { status: 403 });
+      }
+
+      try {
+        const signature = await signer.signMessage(message, body.context);
+        return Response.json({ signature: Buffer.from(signature).toString("base64") });
+      } catch (error) {
+        return Response.json(
+          { error: error instanceof Error ? error.message : "Signing failed" },
+          { status: 500 }
+        );
+      }
+    }
+
+    return Response.json({ error: "Not found" }, { status: 404 });
+  };
+}
+
+// PKCS#8 DER prefix of an ed25519 private key, followed by the 32-byte seed
+const ED25519_PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+
+/**
+ * Local remote signer for tests: signs with a keypair in memory and records
+ * what it was asked to sign. `refuse` makes it reject the next requests.
+ */
+export class MockRemoteSigner implements RemoteSigner {
+  readonly publicKey: PublicKey;
+  readonly requests: { message: Uint8Array; context?: SigningContext }[] = [];
+  refuse = false;
+  private privateKey: KeyObject;
+
+  constructor(keypair: Keypair = Keypair.generate()) {
+    this.publicKey = keypair.publicKey;
+    this.privateKey = createPrivateKey({
+      key: Buffer.concat([ED25519_PKCS8_PREFIX, Buffer.from(keypair.secretKey.subarray(0, 32))]),
+      format: "der",
+      type: "pkcs8",
+    });
+  }
+
+  async signMessage(message: Uint8Array, context?: SigningContext): Promise<Uint8Array> {
+    this.requests.push({ message, context });
+    if (this.refuse) {
+      throw new X402Error("Mock signer refused to sign", "SIGNING_REFUSED");
+    }
+    return sign(null, message, this.privateKey);
+  }
+}
+
+/**
+ * Type guard for remote signers (wallet adapters sign whole transactions)
+ */
+export function isRemoteSigner(signer: Signer): signer is RemoteSigner {
+  return !("secretKey" in signer) && !("signTransaction" in signer) && "signMessage" in signer;
+}
+
+/**
+ * Reduce a keypair, wallet adapter or remote signer to a TransactionSigner.
+ * Remote signatures are verified before use.
+ */
+export function toTransactionSigner(signer: Signer): TransactionSigner {
+  if ("secretKey" in signer) {
+    return {
+      publicKey: signer.publicKey,
+      signTransaction: async (transaction) => {
+        transaction.sign(signer);
+        return transaction;
+      },
+    };
+  }
+
+  if (!isRemoteSigner(signer)) {
+    return {
+      publicKey: signer.publicKey,
+      signTransaction: (transaction) => signer.signTransaction(transaction),
+    };
+  }
+
+  return {
+    publicKey: signer.publicKey,
+    signTransaction: async (transaction, context) => {
+      const signature = await signer.signMessage(transaction.serializeMessage(), context);
+      try {
+        transaction.addSignature(signer.publicKey, Buffer.from(signature));
+      } catch (error) {
+        throw new X402Error(
+          "Remote signer returned a malformed signature",
+          "REMOTE_SIGNING_FAILED",
+          error
+        );
+      }
+      if (!transaction.verifySignatures()) {
+        throw new X402Error("Remote signer returned an invalid signature", "REMOTE_SIGNING_FAILED");
+      }
+      return transaction;
+    },
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * x402 Solana SDK - Retry Helpers
+ * Exponential backoff and classification of transient RPC failures
+ */
+
+import { TransactionExpiredBlockheightExceededError } from "@solana/web3.js";
+
+/**
+ * Retry settings
+ */
+export interface RetryOptions {
+  retries: number; // Attempts after the first one
+  baseDelay?: number; // ms, doubled on every attempt (default: 500)
+  maxDelay?: number; // ms (default: 8000)
+  shouldRetry?: (error: unknown) => boolean; // Default: isRetryableRpcError
+  onRetry?: (error: unknown, attempt: number, delay: number) => void;
+}
+
+/**
+ * Delay before retry number `attempt` (1-based), with jitter
+ */
+export function backoffDelay(attempt: number, baseDelay = 500, maxDelay = 8000): number {
+  const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Wait for the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run `fn`, retrying with backoff while the error is retryable
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions
+): Promise<T> {
+  const shouldRetry = options.shouldRetry || isRetryableRpcError;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= options.retries || !shouldRetry(error)) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt + 1, options.baseDelay, options.maxDelay);
+      options.onRetry?.(error, attempt + 1, delay);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Rate limiting (429), server errors (5xx) and network failures
+ */
+export function isRetryableRpcError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|500|502|503|504)\b|too many requests|service unavailable|bad gateway|gateway timeout|fetch failed|network|socket hang up|ECONNRESET|ECONNREFUSED|ETIMEDOUT/i.test(
+    message
+  );
+}
+
+/**
+ * The transaction's blockhash expired (or is unknown to the RPC node yet)
+ */
+export function isBlockhashExpiredError(error: unknown): boolean {
+  if (error instanceof TransactionExpiredBlockheightExceededError) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /block ?height exceeded|blockhash not found|blockhash expired/i.test(message);
+}
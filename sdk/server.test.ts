@@ -0,0 +1,384 @@
+import { test, mock, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import {
+  AccountInfo,
+  Connection,
+  Keypair,
+  ParsedTransactionWithMeta,
+  PublicKey,
+  SystemProgram,
+} from "@solana/web3.js";
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import { PaymentRequirements } from "@shared/x402-types";
+import { X402Server, X402ServerConfig, PaymentOptions, PaymentHandleResult } from "./server";
+import { MEMO_PROGRAM_ID } from "./solana-utils";
+import { createHmacSigner } from "./signing";
+import { silentLogger } from "./logger";
+
+// Fake chain behind every Connection: transactions by signature, accounts
+// by address, and settlements that land unless `failSends` is set
+const transactions = new Map<string, ParsedTransactionWithMeta>();
+const accounts = new Map<string, AccountInfo<Buffer>>();
+let sent = 0;
+let failSends = false;
+
+mock.method(Connection.prototype, "getParsedTransaction", async (signature: string) =>
+  transactions.get(signature) ?? null
+);
+mock.method(Connection.prototype, "getAccountInfo", async (address: PublicKey) =>
+  accounts.get(address.toBase58()) ?? null
+);
+mock.method(Connection.prototype, "getLatestBlockhash", async () => ({
+  blockhash: "11111111111111111111111111111111",
+  lastValidBlockHeight: 1,
+}));
+mock.method(Connection.prototype, "sendRawTransaction", async () => {
+  if (failSends) throw new Error("Blockhash not found");
+  return `settlement_${++sent}`;
+});
+mock.method(Connection.prototype, "confirmTransaction", async () => ({
+  context: { slot: 1 },
+  value: { err: null },
+}));
+
+beforeEach(() => {
+  transactions.clear();
+  accounts.clear();
+  sent = 0;
+  failSends = false;
+});
+
+const recipient = Keypair.generate().publicKey.toBase58();
+const payer = Keypair.generate().publicKey.toBase58();
+const signer = createHmacSigner("test secret, at least thirty-two bytes");
+
+function createServer(config: Partial<X402ServerConfig> = {}): X402Server {
+  return new X402Server({
+    network: "devnet",
+    recipientAddress: recipient,
+    rpcEndpoint: "http://127.0.0.1:8899",
+    logger: silentLogger,
+    ...config,
+  });
+}
+
+function request(path: string, headers: Record<string, string> = {}) {
+  return { method: "GET", path, url: `http://localhost${path}`, headers };
+}
+
+/**
+ * Requirements from a 402 (the first option)
+ */
+function quoted(result: PaymentHandleResult): PaymentRequirements {
+  assert.equal(result.paid, false);
+  assert.equal(result.response402!.status, 402);
+  return result.response402!.body as PaymentRequirements;
+}
+
+function failure(result: PaymentHandleResult): { code?: string; reason?: string } {
+  assert.equal(result.paid, false);
+  return result.response402!.body as { code?: string; reason?: string };
+}
+
+function instruction(program: string, programId: PublicKey, parsed: unknown) {
+  return { program, programId, parsed };
+}
+
+function parsedTransaction(instructions: unknown[]): ParsedTransactionWithMeta {
+  return {
+    slot: 100,
+    blockTime: 1700000000,
+    meta: { err: null, fee: 5000, innerInstructions: [], preTokenBalances: [], postTokenBalances: [] },
+    transaction: {
+      signatures: [],
+      message: { accountKeys: [], instructions, recentBlockhash: "11111111111111111111111111111111" },
+    },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+/**
+ * Put a SOL payment of the requirements on chain; returns its X-Payment header
+ */
+function paySol(requirements: PaymentRequirements, memo = `x402:${requirements.requestId}`): string {
+  const signature = `payment_${transactions.size + 1}`;
+  transactions.set(
+    signature,
+    parsedTransaction([
+      instruction("system", SystemProgram.programId, {
+        type: "transfer",
+        info: { source: payer, destination: recipient, lamports: Number(requirements.amount) },
+      }),
+      instruction("spl-memo", MEMO_PROGRAM_ID, memo),
+    ])
+  );
+  return proofHeader(signature, requirements);
+}
+
+function proofHeader(signature: string, requirements: PaymentRequirements): string {
+  return JSON.stringify({
+    signature,
+    network: requirements.network,
+    requestId: requirements.requestId,
+    timestamp: Date.now(),
+  });
+}
+
+const price: PaymentOptions = { amount: "0.001", token: "SOL" };
+
+test("admits a verified payment once and refuses to replay it", async () => {
+  const handle = createServer().createHandler(price);
+  const requirements = quoted(await handle(request("/api/data")));
+  const header = paySol(requirements);
+
+  const paid = await handle(request("/api/data", { "x-payment": header }));
+  const replayed = await handle(request("/api/data", { "x-payment": header }));
+
+  assert.equal(paid.paid, true);
+  assert.equal(paid.payment!.payer, payer);
+  assert.equal(failure(replayed).reason, "REPLAYED");
+  assert.equal(failure(replayed).code, "PAYMENT_ALREADY_CONSUMED");
+});
+
+test("admits only one of concurrent requests carrying the same proof", async () => {
+  const handle = createServer().createHandler(price);
+  const header = paySol(quoted(await handle(request("/api/data"))));
+
+  const results = await Promise.all(
+    [1, 2, 3].map(() => handle(request("/api/data", { "x-payment": header })))
+  );
+
+  assert.equal(results.filter((result) => result.paid).length, 1);
+});
+
+test("refuses a payment bound to other requirements by its memo", async () => {
+  const handle = createServer().createHandler(price);
+  const requirements = quoted(await handle(request("/api/data")));
+
+  const result = await handle(
+    request("/api/data", { "x-payment": paySol(requirements, "x402:req_other") })
+  );
+
+  assert.equal(failure(result).reason, "MEMO_MISMATCH");
+});
+
+test("refuses a proof for requirements quoted for another resource", async () => {
+  const handle = createServer().createHandler(price);
+  const requirements = quoted(await handle(request("/api/cheap")));
+
+  const result = await handle(request("/api/data", { "x-payment": paySol(requirements) }));
+
+  assert.equal(failure(result).code, "UNKNOWN_REQUIREMENTS");
+});
+
+test("admits an access pass only on routes selling a matching pass", async () => {
+  const server = createServer({ passSigner: signer });
+  const pass: PaymentOptions = { ...price, pass: { duration: 3600, scope: "/api/premium/*" } };
+  const handle = server.createHandler(pass);
+
+  const requirements = quoted(await handle(request("/api/premium/a")));
+  const paid = await handle(request("/api/premium/a", { "x-payment": paySol(requirements) }));
+  const token = paid.headers["X-Payment-Pass"];
+  assert.ok(token);
+
+  // Same pass option, another path in scope: no payment, no RPC
+  transactions.clear();
+  const reused = await handle(request("/api/premium/b", { "x-payment-pass": token }));
+  assert.equal(reused.paid, true);
+  assert.equal(reused.payment!.payer, payer);
+
+  // Routes not selling that pass do not accept it, even within its scope
+  const priced = server.createHandler(price);
+  const otherToken = server.createHandler({ ...pass, token: "USDC" });
+  const otherScope = server.createHandler({ ...price, pass: { duration: 3600, scope: "/api/*" } });
+  for (const other of [priced, otherToken, otherScope]) {
+    const result = await other(request("/api/premium/b", { "x-payment-pass": token }));
+    assert.equal(result.paid, false);
+  }
+
+  // Nor does any route outside its scope
+  const outside = await handle(request("/api/other", { "x-payment-pass": token }));
+  assert.equal(outside.paid, false);
+});
+
+test("pays requests from prepaid credit until it runs out", async () => {
+  const server = createServer({ credits: { signer } });
+  const handle = server.createHandler({ amount: "0.001", token: "SOL", topUp: "0.002" });
+
+  const requirements = quoted(await handle(request("/api/data")));
+  assert.equal(requirements.amount, "2000000");
+
+  // The top-up pays for this request too
+  const topUp = await handle(request("/api/data", { "x-payment": paySol(requirements) }));
+  assert.equal(topUp.paid, true);
+  const session = topUp.headers["X-Payment-Session"];
+  assert.ok(session);
+
+  const second = await handle(request("/api/data", { "x-payment-session": session }));
+  const third = await handle(request("/api/data", { "x-payment-session": session }));
+
+  assert.equal(second.paid, true);
+  assert.equal(failure(third).code, "INSUFFICIENT_CREDIT");
+});
+
+test("refuses session tokens signed by another server", async () => {
+  const server = createServer({ credits: { signer } });
+  const other = createServer({ credits: { signer: createHmacSigner("other secret, at least thirty-two bytes") } });
+  const options: PaymentOptions = { amount: "0.001", token: "SOL", topUp: "0.002" };
+
+  const handle = other.createHandler(options);
+  const topUp = await handle(
+    request("/api/data", { "x-payment": paySol(quoted(await handle(request("/api/data")))) })
+  );
+
+  const result = await server.createHandler(options)(
+    request("/api/data", { "x-payment-session": topUp.headers["X-Payment-Session"] })
+  );
+  assert.equal(failure(result).code, "INVALID_SESSION");
+});
+
+// Subscriptions: an SPL mint and the subscriber's delegated token account
+const mint = Keypair.generate().publicKey;
+const source = Keypair.generate().publicKey;
+const settlementKeypair = Keypair.generate();
+
+function putTokenAccounts(delegatedAmount: bigint) {
+  const mintData = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode(
+    {
+      mintAuthorityOption: 0,
+      mintAuthority: PublicKey.default,
+      supply: BigInt(1000000000),
+      decimals: 6,
+      isInitialized: true,
+      freezeAuthorityOption: 0,
+      freezeAuthority: PublicKey.default,
+    },
+    mintData
+  );
+  const accountData = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode(
+    {
+      mint,
+      owner: new PublicKey(payer),
+      amount: BigInt(1000000000),
+      delegateOption: 1,
+      delegate: settlementKeypair.publicKey,
+      state: 1,
+      isNativeOption: 0,
+      isNative: BigInt(0),
+      delegatedAmount,
+      closeAuthorityOption: 0,
+      closeAuthority: PublicKey.default,
+    },
+    accountData
+  );
+
+  const account = (data: Buffer) => ({
+    data,
+    owner: TOKEN_PROGRAM_ID,
+    lamports: 1000000,
+    executable: false,
+    rentEpoch: 0,
+  });
+  accounts.set(mint.toBase58(), account(mintData));
+  accounts.set(source.toBase58(), account(accountData));
+}
+
+/**
+ * Put the subscriber's delegation approval on chain; returns its X-Payment header
+ */
+function approve(requirements: PaymentRequirements): string {
+  const signature = `approval_${transactions.size + 1}`;
+  transactions.set(
+    signature,
+    parsedTransaction([
+      instruction("spl-token", TOKEN_PROGRAM_ID, {
+        type: "approveChecked",
+        info: {
+          source: source.toBase58(),
+          delegate: settlementKeypair.publicKey.toBase58(),
+          owner: payer,
+          mint: mint.toBase58(),
+          tokenAmount: { amount: requirements.amount },
+        },
+      }),
+      instruction("spl-memo", MEMO_PROGRAM_ID, `x402:${requirements.requestId}`),
+    ])
+  );
+  return proofHeader(signature, requirements);
+}
+
+function createSubscriptionServer(): X402Server {
+  return createServer({
+    settlementKeypair,
+    subscriptions: {
+      signer,
+      plans: [{ id: "monthly", amount: "5", token: "TEST", mint: mint.toBase58(), period: 30 * 86400 }],
+    },
+  });
+}
+
+test("admits subscribers of an offered plan after charging the first period", async () => {
+  putTokenAccounts(BigInt(60000000));
+  const server = createSubscriptionServer();
+  const handle = server.createHandler(server.subscriptionOption("monthly"));
+
+  const requirements = quoted(await handle(request("/api/data")));
+  assert.equal(requirements.scheme, "upto");
+  assert.equal(requirements.amount, "60000000"); // 12 periods
+
+  const signUp = await handle(request("/api/data", { "x-payment": approve(requirements) }));
+  assert.equal(signUp.paid, true);
+  assert.equal(sent, 1); // First period charged
+  const token = signUp.headers["X-Payment-Subscription"];
+  assert.ok(token);
+
+  const subscriber = await handle(request("/api/data", { "x-payment-subscription": token }));
+  assert.equal(subscriber.paid, true);
+  assert.equal(subscriber.payment!.subscription, signUp.payment!.subscription);
+  assert.equal(sent, 1); // Not due again
+
+  // Routes that do not offer the plan do not admit its subscribers
+  const other = await server.createHandler(price)(
+    request("/api/data", { "x-payment-subscription": token })
+  );
+  assert.equal(other.paid, false);
+});
+
+test("keeps the approval usable when the first subscription charge fails", async () => {
+  putTokenAccounts(BigInt(60000000));
+  const server = createSubscriptionServer();
+  const handle = server.createHandler(server.subscriptionOption("monthly"));
+  const header = approve(quoted(await handle(request("/api/data"))));
+
+  failSends = true;
+  const failed = await handle(request("/api/data", { "x-payment": header }));
+  assert.equal(failure(failed).code, "SUBSCRIPTION_CHARGE_FAILED");
+
+  failSends = false;
+  const retried = await handle(request("/api/data", { "x-payment": header }));
+  assert.equal(retried.paid, true);
+
+  // Spent once signed up
+  const replayed = await handle(request("/api/data", { "x-payment": header }));
+  assert.equal(failure(replayed).reason, "REPLAYED");
+});
+
+test("refuses an approval whose delegation was revoked since", async () => {
+  putTokenAccounts(BigInt(0));
+  const server = createSubscriptionServer();
+  const handle = server.createHandler(server.subscriptionOption("monthly"));
+
+  const result = await handle(
+    request("/api/data", { "x-payment": approve(quoted(await handle(request("/api/data")))) })
+  );
+
+  assert.equal(failure(result).reason, "AUTHORIZATION_REVOKED");
+  assert.equal(sent, 0);
+});
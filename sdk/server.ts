@@ -3,21 +3,68 @@
  * Provides middleware for accepting and verifying x402 payments
  */
 
-import { Request, Response, NextFunction } from "express";
-import { Connection, PublicKey } from "@solana/web3.js";
+import { Connection, Keypair, PublicKey } from "@solana/web3.js";
 import {
   Network,
   PaymentRequirements,
   PaymentProof,
-  PaymentProofSchema,
+  PaymentScheme,
   TokenType,
+  X402Error,
   InvalidPaymentProofError,
+  PaymentAlreadyConsumedError,
+  VerificationFailureReason,
+  X402_VERSION,
 } from "@shared/x402-types";
 import {
   createConnection,
   verifyPaymentTransaction,
+  verifyPaymentAuthorization,
+  settlePayment,
+  getDelegatedAmount,
   getTransactionStatus,
+  amountToBaseUnits,
+  baseUnitsToAmount,
+  getRequirementsDecimals,
+  getTokenMint,
+  verificationFailure,
+  PaymentAuthorization,
+  VerifiedPayment,
+  VerificationResult,
+  VerificationFailure,
+  TRANSIENT_VERIFICATION_FAILURES,
 } from "./solana-utils";
+import { Logger, consoleLogger } from "./logger";
+import { tokenRegistry, getMintInfo } from "./token-registry";
+import { SignatureStore, MemorySignatureStore } from "./signature-store";
+import { CreditStore, MemoryCreditStore } from "./credit-store";
+import { AccessPassPayload, matchesPassScope } from "./access-pass";
+import {
+  Subscription,
+  SubscriptionStore,
+  MemorySubscriptionStore,
+} from "./subscription-store";
+import {
+  WireFormat,
+  createSpecPaymentRequiredResponse,
+  decodePaymentHeader,
+  encodePaymentResponseHeader,
+  toSpecNetwork,
+} from "./wire-format";
+import { createExpressMiddleware, createExpressDiscovery, ExpressPricing } from "./adapters";
+import { PricingTable, PricingConfig } from "./pricing-config";
+import {
+  DiscoveryDocument,
+  DiscoveryOption,
+  DiscoveryRoute,
+  GuardedRoute,
+} from "./discovery";
+import {
+  TokenSigner,
+  encodeSignedToken,
+  decodeSignedToken,
+  fingerprint,
+} from "./signing";
 
 /**
  * Server configuration
@@ -26,55 +73,261 @@ export interface X402ServerConfig {
   network: Network;
   recipientAddress: string;
   rpcEndpoint?: string;
+
+  // RPC endpoints for payment options on other networks
+  rpcEndpoints?: Partial<Record<Network, string>>;
   
   // Cached payment verification (optional)
   enableCache?: boolean;
   cacheTTL?: number; // seconds
+
+  // Ledger of spent payment signatures (defaults to in-memory)
+  // Use a shared store when running multiple server instances
+  signatureStore?: SignatureStore;
+  signatureTTL?: number; // seconds, omit to remember signatures forever
+
+  // How long issued payment requirements stay payable (default: 300 seconds)
+  requirementsTTL?: number;
+
+  // Sign issued requirements into a quote the client echoes back, so any
+  // instance sharing the signer can verify the retry without shared state
+  quoteSigner?: TokenSigner;
+
+  // Delegate that settles usage-based ("upto") payments and pays their fees
+  settlementKeypair?: Keypair;
+
+  // 402 body format: "native" (flat requirements, default) or "x402"
+  // (spec envelope with accepts[] and X-PAYMENT-RESPONSE header).
+  // Payment headers are accepted in both formats either way. The envelope
+  // still carries this SDK's proof payload: not interoperable with other
+  // x402 clients.
+  wireFormat?: WireFormat;
+
+  // Where verification failures and errors are logged (defaults to console)
+  logger?: Logger;
+
+  // Prepaid credit: routes with a `topUp` amount sell credit, spent per
+  // request through a session token instead of one payment per call
+  credits?: CreditOptions;
+
+  // Signs access passes sold by routes with a `pass` option
+  passSigner?: TokenSigner;
+
+  // Recurring subscriptions billed through SPL token delegation
+  // (needs settlementKeypair)
+  subscriptions?: SubscriptionOptions;
+
+  // Route pricing table for middleware(): a config object, or the path of
+  // a JSON/YAML file. Validated when the server is created.
+  pricing?: PricingConfig | string;
+  watchPricing?: boolean; // Reload the pricing file when it changes
+}
+
+/**
+ * A subscription plan. Subscribers delegate `periods` × `amount` to the
+ * settlement key, which pulls `amount` each period.
+ */
+export interface SubscriptionPlan {
+  id: string;
+  amount: string; // Charged each period (token units)
+  token: TokenType | string; // SPL token (native SOL cannot be delegated)
+  mint?: string;
+  network?: Network;
+  period: number; // seconds, e.g. 30 * 86400
+  periods?: number; // Periods covered by the subscriber's allowance (default: 12)
+  description?: string;
+}
+
+/**
+ * Subscription configuration
+ */
+export interface SubscriptionOptions {
+  plans: SubscriptionPlan[];
+  signer: TokenSigner; // Signs subscription tokens
+  store?: SubscriptionStore; // Defaults to in-memory
+}
+
+/**
+ * Prepaid credit configuration
+ */
+export interface CreditOptions {
+  signer: TokenSigner; // Signs session tokens
+  store?: CreditStore; // Balances (defaults to in-memory)
+  sessionTTL?: number; // seconds (default: 86400)
 }
 
 /**
  * Payment requirement builder options
  */
 export interface PaymentOptions {
-  amount: string; // Amount in token units (e.g., "0.001" for SOL, "1.50" for USDC)
-  token: TokenType;
+  amount: string; // Amount in token units (e.g., "0.001" for SOL, "1.50" for USDC); maximum for "upto"
+  token: TokenType | string; // Built-in or registered token symbol
+  mint?: string; // SPL mint address, for tokens not in the registry
+  network?: Network; // Defaults to the server network
+  scheme?: PaymentScheme; // "exact" (default) or "upto" (usage-based, SPL tokens only)
   memo?: string;
   deadline?: number; // Unix timestamp
   requestId?: string;
+
+  // "exact" only: let one payment of up to N × amount cover N requests, so
+  // clients can coalesce concurrent calls into a single transaction
+  maxQuantity?: number;
+
+  // Prepaid credit bought per payment (token units), when the server has
+  // `credits`; each request then debits `amount` from the payer's balance
+  topUp?: string;
+
+  // Sell timed access instead of a single request (needs a passSigner)
+  pass?: PassOptions;
+
+  // Subscription plan id, set by subscriptionOption()
+  subscription?: string;
+
+  // Resource metadata advertised in the x402 wire format
+  description?: string;
+  mimeType?: string;
 }
 
 /**
- * Extend Express Request with payment info
+ * Access pass options: a verified payment buys access for `duration`
  */
-declare global {
-  namespace Express {
-    interface Request {
-      payment?: {
-        proof: PaymentProof;
-        verified: boolean;
-        amount: string;
-        token: TokenType;
-      };
-    }
-  }
+export interface PassOptions {
+  duration: number; // Seconds of access
+  scope?: string; // Paths covered, e.g. "/api/premium/*" (defaults to the route's path)
+  maxUses?: number; // Requests allowed during the pass (default: unlimited)
+}
+
+/**
+ * Payload of a signed payment quote
+ */
+interface QuotePayload extends Record<string, unknown> {
+  typ: "x402-quote";
+  req: PaymentRequirements;
+  rfp: string; // Route fingerprint
+  exp: number; // Expiry (seconds)
+}
+
+/**
+ * Payload of a prepaid credit session token
+ */
+interface SessionPayload extends Record<string, unknown> {
+  typ: "x402-session";
+  sub: string; // Payer
+  aud: string; // Recipient address of the issuing server
+  exp: number; // Expiry (seconds)
+}
+
+/**
+ * Payload of a subscription token
+ */
+interface SubscriptionPayload extends Record<string, unknown> {
+  typ: "x402-subscription";
+  sub: string; // Subscription id
+  aud: string; // Recipient address of the issuing server
+  req: PaymentRequirements; // Sign-up requirements (lets the client revoke)
+}
+
+/**
+ * Result of settling a usage-based payment
+ */
+export interface SettlementResult {
+  amount: string; // Charged amount in token units
+  signature?: string; // Settlement transaction (absent when nothing was charged)
+  headers: Record<string, string>; // Response headers (X-Payment-Charge, ...), applied by the adapters
+}
+
+/**
+ * Payment details of an admitted request (`req.payment` in Express)
+ */
+export interface PaymentInfo {
+  proof?: PaymentProof; // Absent for requests paid from credit, a pass or a subscription
+  verified: boolean;
+  payer: string; // Wallet that paid (or authorized an "upto" payment)
+  amount: string;
+  token: string;
+  scheme: PaymentScheme;
+  quantity: number; // Requests the payment covers (see maxQuantity)
+  credit?: string; // Prepaid balance left (token units), when paid from credit
+  expiresAt?: number; // Access pass expiry (Unix seconds), when paid with a pass
+  subscription?: string; // Subscription id, for requests by subscribers
+  requirements: PaymentRequirements; // The accepted option that was paid
+  // "upto" only: charge the used amount (token units) before responding
+  settle?: (amount: string) => Promise<SettlementResult>;
+}
+
+/**
+ * Framework-neutral view of an incoming request
+ */
+export interface PaymentRequest {
+  method: string;
+  path: string; // Full path without query; binds quotes and matches pass scopes
+  url: string; // Absolute URL, advertised as the x402 `resource`
+  headers: Record<string, string | string[] | undefined>; // Lower-case names
+  raw?: unknown; // The framework's own request, passed to pricing resolvers
+}
+
+/**
+ * Prices a request: the options to accept, or null to let it through free
+ */
+export type PaymentResolver<T = PaymentRequest> = (
+  request: T
+) => PaymentOptions | PaymentOptions[] | null | Promise<PaymentOptions | PaymentOptions[] | null>;
+
+/**
+ * Static payment options, or a resolver pricing each request
+ */
+export type RoutePricing<T = PaymentRequest> =
+  | PaymentOptions
+  | PaymentOptions[]
+  | PaymentResolver<T>;
+
+/**
+ * Response to send instead of running the route handler
+ */
+export interface PaymentResponse {
+  status: number; // 402, or 500 if payment processing failed
+  headers: Record<string, string>;
+  body: unknown; // JSON
+}
+
+/**
+ * Outcome of checking a request's payment
+ */
+export interface PaymentHandleResult {
+  paid: boolean;
+  payment?: PaymentInfo; // When paid (absent for requests the resolver made free)
+  response402?: PaymentResponse; // When not paid
+  headers: Record<string, string>; // Add to the handler's response (X-Payment-Pass, ...)
+}
+
+/**
+ * Why a request got a 402 although it carried a payment or credential
+ */
+interface PaymentFailure {
+  error: string;
+  code?: string;
+  reason?: VerificationFailureReason;
 }
 
 /**
  * Simple in-memory cache for verified payments
  */
 class PaymentCache {
-  private cache = new Map<string, { verified: boolean; timestamp: number }>();
+  private cache = new Map<
+    string,
+    { verified: VerificationResult<VerifiedPayment>; timestamp: number }
+  >();
   private ttl: number;
 
   constructor(ttl: number = 300) {
     this.ttl = ttl * 1000; // Convert to milliseconds
   }
 
-  set(signature: string, verified: boolean): void {
+  set(signature: string, verified: VerificationResult<VerifiedPayment>): void {
     this.cache.set(signature, { verified, timestamp: Date.now() });
   }
 
-  get(signature: string): boolean | null {
+  get(signature: string): VerificationResult<VerifiedPayment> | null {
     const entry = this.cache.get(signature);
     if (!entry) return null;
 
@@ -92,39 +345,217 @@ class PaymentCache {
   }
 }
 
+/**
+ * In-memory registry of issued payment requirements, keyed by requestId.
+ * Lets the server verify a proof against the exact quote it sent for a resource.
+ */
+class IssuedRequirements {
+  private issued = new Map<
+    string,
+    { options: PaymentRequirements[]; resource: string; expiresAt: number }
+  >();
+  private ttl: number;
+  private lastPrune = 0;
+
+  constructor(ttl: number = 300) {
+    this.ttl = ttl * 1000; // Convert to milliseconds
+  }
+
+  add(options: PaymentRequirements[], resource: string): void {
+    this.prune();
+
+    // Each issue replaces the previous one for its requestId, so a static
+    // requestId re-issued on every 402 does not accumulate options
+    const replaced = new Set<string>();
+    options.forEach((requirements) => {
+      if (!requirements.requestId) return;
+
+      // Never keep a quote payable past its own deadline
+      let expiresAt = Date.now() + this.ttl;
+      if (requirements.deadline) {
+        expiresAt = Math.min(expiresAt, requirements.deadline);
+      }
+
+      // Options issued together share a requestId
+      const entry = this.issued.get(requirements.requestId);
+      if (entry && replaced.has(requirements.requestId)) {
+        entry.options.push(requirements);
+        entry.expiresAt = Math.min(entry.expiresAt, expiresAt);
+      } else {
+        this.issued.set(requirements.requestId, {
+          options: [requirements],
+          resource,
+          expiresAt,
+        });
+        replaced.add(requirements.requestId);
+      }
+    });
+  }
+
+  get(requestId: string, resource: string): PaymentRequirements[] | null {
+    const entry = this.issued.get(requestId);
+    if (!entry) return null;
+
+    if (Date.now() > entry.expiresAt) {
+      this.issued.delete(requestId);
+      return null;
+    }
+
+    // A quote issued for one resource cannot pay for another
+    if (entry.resource !== resource) {
+      return null;
+    }
+
+    return entry.options;
+  }
+
+  /**
+   * Remove expired entries
+   */
+  private prune(): void {
+    const now = Date.now();
+    if (now - this.lastPrune < 60_000) return;
+    this.lastPrune = now;
+
+    this.issued.forEach((entry, requestId) => {
+      if (now > entry.expiresAt) {
+        this.issued.delete(requestId);
+      }
+    });
+  }
+}
+
 /**
  * x402 Server for accepting and verifying payments
  */
 export class X402Server {
-  private connection: Connection;
+  private connections = new Map<Network, Connection>();
   private config: X402ServerConfig;
   private cache?: PaymentCache;
+  private signatureStore: SignatureStore;
+  private issued: IssuedRequirements;
+  private logger: Logger;
+  private creditStore?: CreditStore;
+  private subscriptionStore?: SubscriptionStore;
+  private pricingTable?: PricingTable;
 
   constructor(config: X402ServerConfig) {
     this.config = config;
-    this.connection = createConnection(config.network, config.rpcEndpoint);
+    this.logger = config.logger || consoleLogger;
+    this.signatureStore = config.signatureStore || new MemorySignatureStore();
+    this.issued = new IssuedRequirements(config.requirementsTTL);
+
+    if (config.credits) {
+      this.creditStore = config.credits.store || new MemoryCreditStore();
+    }
+
+    if (config.subscriptions) {
+      this.subscriptionStore = config.subscriptions.store || new MemorySubscriptionStore();
+    }
     
     if (config.enableCache) {
       this.cache = new PaymentCache(config.cacheTTL);
     }
+
+    if (config.pricing) {
+      this.pricingTable = new PricingTable(config.pricing, {
+        watch: config.watchPricing,
+        validate: (accepted) => this.validateOptions(accepted),
+        logger: this.logger,
+      });
+    }
   }
 
   /**
-   * Create payment requirements for a resource
+   * Create payment requirements for a resource.
+   * Token decimals and program come from the token registry, or from chain
+   * for mints that are not registered. Options with a `topUp` (and a server
+   * with `credits`) ask for the top-up amount.
    */
-  createPaymentRequirements(options: PaymentOptions): PaymentRequirements {
-    // Convert amount to base units (lamports or token decimals)
-    const decimals = options.token === "SOL" ? 9 : 6; // USDC/USDT have 6 decimals
-    const [whole, fraction = ""] = options.amount.split(".");
-    const paddedFraction = fraction.padEnd(decimals, "0");
-    const baseUnits = whole + paddedFraction;
+  async createPaymentRequirements(options: PaymentOptions): Promise<PaymentRequirements> {
+    const network = options.network || this.config.network;
+    const native = options.token === "SOL" && !options.mint;
+
+    let token: { mint?: string; decimals: number; programId?: string } = { decimals: 9 };
+    if (!native) {
+      const mint = options.mint ?? getTokenMint(network, options.token);
+      if (!mint) {
+        throw new X402Error(
+          `Unknown token ${options.token} on ${network}; set a mint or register the token`,
+          "UNKNOWN_TOKEN"
+        );
+      }
+      token =
+        tokenRegistry.resolve(network, mint) ??
+        (await getMintInfo(this.getConnection(network), mint));
+    }
+
+    const scheme = options.scheme || "exact";
+    const topUp = this.config.credits ? options.topUp : undefined;
+    if (scheme === "upto") {
+      if (native) {
+        throw new X402Error(
+          "The upto scheme requires an SPL token; native SOL cannot be delegated",
+          "UNSUPPORTED_SCHEME"
+        );
+      }
+      if (!this.config.settlementKeypair) {
+        throw new X402Error(
+          "The upto scheme requires a settlementKeypair in the server config",
+          "UNSUPPORTED_SCHEME"
+        );
+      }
+      if (options.maxQuantity && options.maxQuantity > 1) {
+        throw new X402Error(
+          "maxQuantity is only supported by the exact scheme",
+          "UNSUPPORTED_SCHEME"
+        );
+      }
+      if (topUp || options.pass) {
+        throw new X402Error(
+          "Prepaid credit and access passes are only supported by the exact scheme",
+          "UNSUPPORTED_SCHEME"
+        );
+      }
+    }
+
+    if (options.pass && !options.pass.scope) {
+      throw new X402Error("An access pass needs a scope", "INVALID_PASS_OPTIONS");
+    }
+
+    const plan = options.subscription ? this.getPlan(options.subscription) : undefined;
+    if (plan && scheme !== "upto") {
+      throw new X402Error("Subscriptions use the upto scheme", "UNSUPPORTED_SCHEME");
+    }
+    const price = amountToBaseUnits(topUp || options.amount, token.decimals);
 
     return {
-      scheme: "exact",
-      network: this.config.network,
-      amount: baseUnits,
+      scheme,
+      network,
+      // Convert amount to base units (lamports or token decimals)
+      amount: (plan ? price * BigInt(plan.periods ?? 12) : price).toString(),
       token: options.token,
+      mint: token.mint,
+      decimals: token.decimals,
+      tokenProgram: token.programId,
       recipient: this.config.recipientAddress,
+      settlementAuthority:
+        scheme === "upto"
+          ? this.config.settlementKeypair!.publicKey.toBase58()
+          : undefined,
+      maxQuantity:
+        !topUp && options.maxQuantity && options.maxQuantity > 1 ? options.maxQuantity : undefined,
+      credit: topUp ? true : undefined,
+      pass: options.pass && {
+        duration: options.pass.duration,
+        scope: options.pass.scope!,
+        maxUses: options.pass.maxUses,
+      },
+      subscription: plan && {
+        plan: plan.id,
+        amount: price.toString(),
+        period: plan.period,
+      },
       memo: options.memo,
       deadline: options.deadline,
       requestId: options.requestId || this.generateRequestId(),
@@ -132,109 +563,1086 @@ export class X402Server {
   }
 
   /**
-   * Verify payment proof from X-Payment header
+   * Payment option offering a subscription plan. Add it to requirePayment
+   * to admit the plan's subscribers; others can subscribe from the 402.
+   */
+  subscriptionOption(planId: string): PaymentOptions {
+    const plan = this.getPlan(planId);
+    return {
+      amount: plan.amount,
+      token: plan.token,
+      mint: plan.mint,
+      network: plan.network,
+      scheme: "upto",
+      subscription: plan.id,
+      description: plan.description,
+    };
+  }
+
+  /**
+   * Get a subscription by id
+   */
+  async getSubscription(id: string): Promise<Subscription | null> {
+    return this.getSubscriptionStore().get(id);
+  }
+
+  /**
+   * Stop charging a subscription. Only the subscriber can revoke the
+   * delegation itself.
+   */
+  async cancelSubscription(id: string): Promise<Subscription | null> {
+    const store = this.getSubscriptionStore();
+    const subscription = await store.get(id);
+    if (!subscription) return null;
+
+    subscription.status = "cancelled";
+    await store.save(subscription);
+    return subscription;
+  }
+
+  /**
+   * Charge every subscription whose period has ended. Call it periodically
+   * (cron, setInterval); subscribers are also charged lazily on their next
+   * request. Returns the subscriptions as updated.
+   */
+  async chargeSubscriptions(): Promise<Subscription[]> {
+    const due = await this.getSubscriptionStore().listDue(Math.floor(Date.now() / 1000));
+    const charged: Subscription[] = [];
+    for (const subscription of due) {
+      charged.push(await this.chargeSubscription(subscription));
+    }
+    return charged;
+  }
+
+  /**
+   * Verify payment proof from X-Payment header.
+   * Returns the verified payment (payer, amount, slot, ...) or the reason it
+   * was rejected.
    */
   async verifyPayment(
     proof: PaymentProof,
     requirements: PaymentRequirements
-  ): Promise<boolean> {
+  ): Promise<VerificationResult<VerifiedPayment>> {
+    // Check cache first (keyed per quote, since the memo binds the payment to it)
+    const cacheKey = `${proof.signature}:${requirements.requestId ?? ""}`;
+    if (this.cache) {
+      const cached = this.cache.get(cacheKey);
+      if (cached !== null) {
+        return cached;
+      }
+    }
+
+    const mismatch = this.checkProof(proof, requirements);
+    if (mismatch) return mismatch;
+
+    // Verify transaction on blockchain with proper commitment
+    // Use "confirmed" for production to balance speed and security
+    const verified = await verifyPaymentTransaction(
+      this.getConnection(requirements.network),
+      proof.signature,
+      requirements,
+      "confirmed" // Can be made configurable via server config
+    );
+
+    // Cache the result, unless the transaction may still land
+    if (this.cache && (verified.valid || !TRANSIENT_VERIFICATION_FAILURES.includes(verified.reason))) {
+      this.cache.set(cacheKey, verified);
+    }
+
+    return verified;
+  }
+
+  /**
+   * Verify a usage-based ("upto") payment authorization from X-Payment header
+   */
+  async verifyAuthorization(
+    proof: PaymentProof,
+    requirements: PaymentRequirements
+  ): Promise<VerificationResult<PaymentAuthorization>> {
+    const mismatch = this.checkProof(proof, requirements);
+    if (mismatch) return mismatch;
+
+    return verifyPaymentAuthorization(
+      this.getConnection(requirements.network),
+      proof.signature,
+      requirements,
+      "confirmed"
+    );
+  }
+
+  /**
+   * Express middleware for requiring payment.
+   * Pass several options to accept any one of them (e.g. SOL or USDC), or a
+   * resolver `(req) => options | null` to price each request (null = free).
+   */
+  requirePayment(pricing: ExpressPricing) {
+    return createExpressMiddleware(this, pricing);
+  }
+
+  /**
+   * Express middleware guarding every route priced in the `pricing` config;
+   * other requests pass through. Mount it once, before the routes.
+   */
+  middleware() {
+    const table = this.getPricingTable();
+    return this.requirePayment((req) => table.match(req.method, `${req.baseUrl}${req.path}`));
+  }
+
+  /**
+   * Pricing table loaded from the `pricing` config, for other frameworks'
+   * adapters, e.g. `(ctx) => server.getPricingTable().match(ctx.method, ctx.path)`
+   */
+  getPricingTable(): PricingTable {
+    if (!this.pricingTable) {
+      throw new X402Error("No pricing in the server config", "NO_PRICING_CONFIG");
+    }
+    return this.pricingTable;
+  }
+
+  /**
+   * Express handler for the discovery document, listing the pricing
+   * config's routes and the app's requirePayment routes:
+   * `app.get("/.well-known/x402", server.discovery())`
+   */
+  discovery() {
+    return createExpressDiscovery(this);
+  }
+
+  /**
+   * Discovery document: the pricing config's routes, then `routes` (routes
+   * guarded elsewhere, e.g. `listExpressRoutes(app)` or other frameworks')
+   */
+  async getDiscoveryDocument(routes: GuardedRoute[] = []): Promise<DiscoveryDocument> {
+    const listed: DiscoveryRoute[] = [];
+
+    for (const route of this.pricingTable?.getRoutes() ?? []) {
+      for (const method of route.methods ?? ["*"]) {
+        const path = route.pattern;
+        listed.push(
+          route.accepted
+            ? { method, path, accepts: await this.describeOptions(route.accepted, path) }
+            : { method, path, free: true }
+        );
+      }
+    }
+
+    for (const route of routes) {
+      listed.push(
+        typeof route.pricing === "function"
+          ? { method: route.method, path: route.path, dynamic: true }
+          : {
+              method: route.method,
+              path: route.path,
+              accepts: await this.describeOptions(this.validateOptions(route.pricing), route.path),
+            }
+      );
+    }
+
+    return {
+      x402Version: X402_VERSION,
+      network: this.config.network,
+      recipient: this.config.recipientAddress,
+      routes: listed,
+    };
+  }
+
+  /**
+   * Options as advertised by discovery: their requirements without the
+   * per-request fields
+   */
+  private async describeOptions(
+    accepted: PaymentOptions[],
+    path: string
+  ): Promise<DiscoveryOption[]> {
+    return Promise.all(
+      accepted.map(async (options) => {
+        const { requestId, quote, deadline, ...requirements } =
+          await this.createPaymentRequirements({
+            ...options,
+            pass: options.pass && { ...options.pass, scope: options.pass.scope ?? path },
+          });
+        return { ...requirements, description: options.description, mimeType: options.mimeType };
+      })
+    );
+  }
+
+  /**
+   * Framework-neutral payment check for a route, used by the adapters.
+   * Static options are validated here; resolved options on each request.
+   */
+  createHandler(
+    pricing: RoutePricing
+  ): (request: PaymentRequest) => Promise<PaymentHandleResult> {
+    if (typeof pricing !== "function") {
+      const accepted = this.validateOptions(pricing);
+      return (request) => this.processPayment(request, async () => accepted);
+    }
+
+    return (request) =>
+      this.processPayment(request, async () => {
+        const options = await pricing(request);
+        return options === null ? null : this.validateOptions(options);
+      });
+  }
+
+  /**
+   * Check a request's payment against the accepted options. The request is
+   * either admitted (`paid`) or gets `response402` to send instead.
+   */
+  async handle(
+    request: PaymentRequest,
+    pricing: RoutePricing
+  ): Promise<PaymentHandleResult> {
+    return this.createHandler(pricing)(request);
+  }
+
+  /**
+   * Check route options against the server config
+   */
+  private validateOptions(options: PaymentOptions | PaymentOptions[]): PaymentOptions[] {
+    const accepted = Array.isArray(options) ? options : [options];
+    if (accepted.length === 0) {
+      throw new Error("requirePayment needs at least one payment option");
+    }
+    if (accepted.some((option) => option.topUp) && !this.config.credits) {
+      throw new Error("topUp needs credits in the server config");
+    }
+    if (accepted.some((option) => option.pass) && !this.config.passSigner) {
+      throw new Error("pass needs a passSigner in the server config");
+    }
+    accepted.forEach((option) => option.subscription && this.getPlan(option.subscription));
+    return accepted;
+  }
+
+  /**
+   * Admit a request by subscription, access pass, prepaid credit or payment
+   * proof, or build the 402 (500 on errors) to send instead.
+   * Options are only priced when needed: a payment proof is verified against
+   * the requirements it was quoted, never against a recomputed price.
+   */
+  private async processPayment(
+    request: PaymentRequest,
+    resolveOptions: () => Promise<PaymentOptions[] | null>
+  ): Promise<PaymentHandleResult> {
+    const resource = this.getResource(request);
+    const headers: Record<string, string> = {};
+    const admit = (payment?: PaymentInfo): PaymentHandleResult => ({ paid: true, payment, headers });
+
+    let resolved: Promise<PaymentOptions[] | null> | undefined;
+    const getAccepted = () => (resolved = resolved || resolveOptions());
+
+    // Quote fresh requirements (free requests are let through)
+    const reject = async (failure?: PaymentFailure): Promise<PaymentHandleResult> => {
+      const accepted = await getAccepted();
+      if (!accepted) return admit();
+
+      return {
+        paid: false,
+        headers,
+        response402: this.createPaymentRequired(
+          request,
+          accepted,
+          await this.issueRequirements(accepted, resource),
+          headers,
+          failure
+        ),
+      };
+    };
+
     try {
-      // Check cache first
-      if (this.cache) {
-        const cached = this.cache.get(proof.signature);
-        if (cached !== null) {
-          return cached;
+      // Check for X-Payment header
+      const paymentHeader = getHeader(request, "x-payment");
+
+      if (!paymentHeader) {
+        // Price the request (proofs are verified against their quote instead)
+        const accepted = await getAccepted();
+        if (!accepted) return admit();
+
+        // Subscribers of an offered plan are admitted without a payment
+        const subscriptionHeader = getHeader(request, "x-payment-subscription");
+        if (subscriptionHeader && this.config.subscriptions) {
+          const payment = await this.admitSubscriber(accepted, subscriptionHeader);
+          if (payment) return admit(payment);
         }
+
+        // A valid access pass covers the request without a payment
+        const passHeader = getHeader(request, "x-payment-pass");
+        if (passHeader && this.config.passSigner) {
+          const payment = await this.usePass(request, accepted, passHeader);
+          if (payment) return admit(payment);
+        }
+
+        // Requests carrying a session token are paid from prepaid credit
+        const sessionHeader = getHeader(request, "x-payment-session");
+        if (sessionHeader && accepted.some((option) => option.topUp)) {
+          const payer = this.readSession(sessionHeader);
+          const payment = payer && (await this.spendCredit(accepted, payer, headers));
+          if (payment) return admit(payment);
+
+          // Offer a top-up
+          return reject(
+            payer
+              ? { error: "Insufficient prepaid credit", code: "INSUFFICIENT_CREDIT" }
+              : { error: "Session token invalid or expired", code: "INVALID_SESSION" }
+          );
+        }
+
+        // No payment provided, return 402 with requirements
+        return reject();
       }
 
-      // Verify network matches
-      if (proof.network !== requirements.network) {
-        return false;
+      // Parse payment proof (raw JSON or base64 x402 payload)
+      let proof: PaymentProof;
+      try {
+        proof = decodePaymentHeader(paymentHeader).proof;
+      } catch (error) {
+        throw new InvalidPaymentProofError(
+          "Invalid payment proof format",
+          error
+        );
       }
 
-      // Check deadline if provided
-      if (requirements.deadline && proof.timestamp > requirements.deadline) {
-        return false;
+      // Verify against the options this proof was issued for
+      const candidates = this.resolveRequirements(proof, resource).filter(
+        (candidate) => candidate.network === proof.network
+      );
+
+      if (candidates.length === 0) {
+        return reject({
+          error: "Payment requirements unknown or expired",
+          code: "UNKNOWN_REQUIREMENTS",
+        });
+      }
+
+      // Reject already spent proofs before touching the RPC
+      const maxUses = Math.max(...candidates.map((candidate) => candidate.maxQuantity ?? 1));
+      if (await this.signatureStore.isConsumed(proof.signature, maxUses)) {
+        return reject(this.getReplayFailure(proof));
+      }
+
+      // Verify payment against whichever option it satisfies
+      // (usage-based payments verify the delegation instead)
+      let requirements: PaymentRequirements | null = null;
+      let authorization: PaymentAuthorization | null = null;
+      let payer: string | undefined;
+      let quantity = 1;
+      let paid = BigInt(0);
+      let failure: VerificationFailure | null = null;
+      for (const candidate of candidates) {
+        if (candidate.scheme === "upto") {
+          const result = await this.verifyAuthorization(proof, candidate);
+          if (result.valid) {
+            requirements = candidate;
+            authorization = result.value;
+            payer = authorization.owner;
+            break;
+          }
+          failure = this.pickFailure(failure, result);
+        } else {
+          const result = await this.verifyPayment(proof, candidate);
+          if (result.valid) {
+            requirements = candidate;
+            payer = result.value.payer;
+            paid = result.value.amount;
+            quantity = this.getPaidQuantity(candidate, result.value.amount);
+            break;
+          }
+          failure = this.pickFailure(failure, result);
+        }
+      }
+
+      if (!requirements) {
+        this.logger.warn("Payment verification failed", {
+          signature: proof.signature,
+          reason: failure?.reason,
+          message: failure?.message,
+        });
+        return reject({
+          error: failure?.message ?? "Payment verification failed",
+          code: "PAYMENT_VERIFICATION_FAILED",
+          reason: failure?.reason,
+        });
       }
 
-      // Verify transaction on blockchain with proper commitment
-      // Use "confirmed" for production to balance speed and security
-      const verified = await verifyPaymentTransaction(
-        this.connection,
+      // Subscription sign-up: charge the first period before spending the
+      // approval, so a failed charge can be retried with it (the short lock
+      // keeps concurrent requests from signing up twice)
+      let subscription: Subscription | undefined;
+      if (requirements.subscription && authorization) {
+        const lock = `signup:${proof.signature}`;
+        if (!(await this.signatureStore.consume(lock, 60))) {
+          return reject(this.getReplayFailure(proof));
+        }
+        subscription = await this.startSubscription(requirements, authorization);
+        if (subscription.status !== "active") {
+          // Not signed up: never charge this record later
+          subscription.status = "cancelled";
+          await this.getSubscriptionStore().save(subscription);
+          await this.signatureStore.release?.(lock);
+          return reject({
+            error: "First subscription charge failed",
+            code: "SUBSCRIPTION_CHARGE_FAILED",
+          });
+        }
+        headers["X-Payment-Subscription"] = this.issueSubscriptionToken(subscription);
+      }
+
+      // Mark the signature as spent (one of its paid uses); a concurrent
+      // request carrying the same used-up proof loses this race and is rejected
+      const consumed = await this.signatureStore.consume(
         proof.signature,
-        requirements,
-        "confirmed" // Can be made configurable via server config
+        this.config.signatureTTL,
+        quantity
       );
 
-      // Cache result
-      if (this.cache) {
-        this.cache.set(proof.signature, verified);
+      if (!consumed) {
+        return reject(this.getReplayFailure(proof));
+      }
+
+      if (this.config.wireFormat === "x402") {
+        headers["X-PAYMENT-RESPONSE"] = encodePaymentResponseHeader({
+          success: true,
+          transaction: proof.signature,
+          network: toSpecNetwork(requirements.network),
+          payer,
+        });
+      }
+
+      // Top-up: credit the whole payment, then pay this request from it
+      if (requirements.credit) {
+        await this.creditStore!.credit(this.getCreditAccount(requirements, payer!), paid);
+        headers["X-Payment-Session"] = this.issueSession(payer!);
+
+        // (priced now: the credit bought is what was quoted, the spend is not)
+        const accepted = await getAccepted();
+        if (!accepted) return admit();
+        const payment = await this.spendCredit(accepted, payer!, headers, proof);
+        if (payment) return admit(payment);
+        return reject({ error: "Insufficient prepaid credit", code: "INSUFFICIENT_CREDIT" });
+      }
+
+      // Access pass: let the payer back in until it expires
+      let expiresAt: number | undefined;
+      if (requirements.pass) {
+        const pass = await this.issuePass(requirements, payer!, proof.signature);
+        headers["X-Payment-Pass"] = pass.token;
+        expiresAt = pass.expiresAt;
       }
 
-      return verified;
+      return admit({
+        proof,
+        verified: true,
+        payer: payer!,
+        amount: baseUnitsToAmount(
+          BigInt(requirements.amount),
+          getRequirementsDecimals(requirements)
+        ),
+        token: requirements.token,
+        scheme: requirements.scheme,
+        quantity,
+        expiresAt,
+        subscription: subscription?.id,
+        requirements,
+        settle: authorization && !subscription
+          ? this.createSettlement(headers, requirements, authorization)
+          : undefined,
+      });
     } catch (error) {
-      console.error("Payment verification error:", error);
-      return false;
+      this.logger.error("Payment middleware error", {
+        error: error instanceof Error ? error.message : error,
+      });
+      return {
+        paid: false,
+        headers,
+        response402: {
+          status: 500,
+          headers,
+          body: {
+            error: "Payment processing error",
+            message: error instanceof Error ? error.message : "Unknown error",
+          },
+        },
+      };
     }
   }
 
   /**
-   * Express middleware for requiring payment
+   * Start a subscription from a verified sign-up authorization
    */
-  requirePayment(options: PaymentOptions) {
-    return async (req: Request, res: Response, next: NextFunction) => {
-      try {
-        // Check for X-Payment header
-        const paymentHeader = req.headers["x-payment"];
-        
-        if (!paymentHeader) {
-          // No payment provided, return 402 with requirements
-          const requirements = this.createPaymentRequirements(options);
-          return res.status(402).json(requirements);
-        }
+  private async startSubscription(
+    requirements: PaymentRequirements,
+    authorization: PaymentAuthorization
+  ): Promise<Subscription> {
+    const now = Math.floor(Date.now() / 1000);
+    return this.chargeSubscription({
+      id: `sub_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`,
+      plan: requirements.subscription!.plan,
+      subscriber: authorization.owner,
+      source: authorization.source,
+      requirements: { ...requirements, quote: undefined },
+      status: "past_due",
+      periodEnd: now,
+      createdAt: now,
+    });
+  }
 
-        // Parse payment proof
-        let proof: PaymentProof;
-        try {
-          const parsed = typeof paymentHeader === "string" 
-            ? JSON.parse(paymentHeader)
-            : paymentHeader;
-          proof = PaymentProofSchema.parse(parsed);
-        } catch (error) {
-          throw new InvalidPaymentProofError(
-            "Invalid payment proof format",
-            error
-          );
-        }
+  /**
+   * Pull one period's amount from a due subscription. A revoked delegation
+   * cancels it; a failed charge leaves it past_due until the next attempt.
+   */
+  private async chargeSubscription(subscription: Subscription): Promise<Subscription> {
+    const store = this.getSubscriptionStore();
+    const { requirements } = subscription;
+    const terms = requirements.subscription!;
+    const settlementKeypair = this.config.settlementKeypair!;
 
-        // Verify payment
-        const requirements = this.createPaymentRequirements(options);
-        const verified = await this.verifyPayment(proof, requirements);
+    // One charge at a time per period, even across server instances
+    const lock = `subscription:${subscription.id}:${subscription.periodEnd}`;
+    if (!(await this.signatureStore.consume(lock, 60))) {
+      return (await store.get(subscription.id)) ?? subscription;
+    }
 
-        if (!verified) {
-          return res.status(402).json({
-            error: "Payment verification failed",
-            requirements,
-          });
-        }
+    const connection = this.getConnection(requirements.network);
+    try {
+      const delegated = await getDelegatedAmount(
+        connection,
+        subscription.source,
+        settlementKeypair.publicKey.toBase58(),
+        requirements
+      );
 
-        // Attach payment info to request
-        req.payment = {
-          proof,
-          verified: true,
-          amount: options.amount,
-          token: options.token,
-        };
+      if (delegated === null) {
+        subscription.status = "cancelled";
+      } else {
+        subscription.lastCharge = await settlePayment(
+          connection,
+          settlementKeypair,
+          {
+            owner: subscription.subscriber,
+            source: subscription.source,
+            mint: requirements.mint!,
+            maxAmount: delegated,
+            slot: 0,
+            blockTime: null,
+          },
+          requirements,
+          BigInt(terms.amount)
+        );
+        subscription.status = "active";
+        subscription.periodEnd =
+          Math.max(subscription.periodEnd, Math.floor(Date.now() / 1000)) + terms.period;
+      }
+    } catch (error) {
+      subscription.status = "past_due";
+      this.logger.warn("Subscription charge failed", {
+        subscription: subscription.id,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
 
-        next();
-      } catch (error) {
-        console.error("Payment middleware error:", error);
-        res.status(500).json({
-          error: "Payment processing error",
-          message: error instanceof Error ? error.message : "Unknown error",
+    await store.save(subscription);
+    return subscription;
+  }
+
+  /**
+   * Admit a subscriber of a plan offered by the route, charging the next
+   * period first if it is due
+   */
+  private async admitSubscriber(
+    accepted: PaymentOptions[],
+    token: string
+  ): Promise<PaymentInfo | null> {
+    const payload = decodeSignedToken<SubscriptionPayload>(
+      token,
+      this.config.subscriptions!.signer
+    );
+    if (
+      !payload ||
+      payload.typ !== "x402-subscription" ||
+      payload.aud !== this.config.recipientAddress
+    ) {
+      return null;
+    }
+
+    let subscription = await this.getSubscriptionStore().get(payload.sub);
+    if (
+      !subscription ||
+      subscription.status === "cancelled" ||
+      !accepted.some((option) => option.subscription === subscription!.plan)
+    ) {
+      return null;
+    }
+
+    if (subscription.periodEnd <= Math.floor(Date.now() / 1000)) {
+      subscription = await this.chargeSubscription(subscription);
+    }
+    if (subscription.status !== "active") {
+      return null;
+    }
+
+    const { requirements } = subscription;
+    return {
+      verified: true,
+      payer: subscription.subscriber,
+      amount: baseUnitsToAmount(
+        BigInt(requirements.subscription!.amount),
+        getRequirementsDecimals(requirements)
+      ),
+      token: requirements.token,
+      scheme: requirements.scheme,
+      quantity: 1,
+      subscription: subscription.id,
+      requirements,
+    };
+  }
+
+  /**
+   * Sign the token a subscriber presents instead of paying
+   */
+  private issueSubscriptionToken(subscription: Subscription): string {
+    const payload: SubscriptionPayload = {
+      typ: "x402-subscription",
+      sub: subscription.id,
+      aud: this.config.recipientAddress,
+      req: subscription.requirements,
+    };
+    return encodeSignedToken(payload, this.config.subscriptions!.signer);
+  }
+
+  /**
+   * Look up a configured subscription plan
+   */
+  private getPlan(id: string): SubscriptionPlan {
+    const plan = this.config.subscriptions?.plans.find((candidate) => candidate.id === id);
+    if (!plan) {
+      throw new X402Error(`Unknown subscription plan: ${id}`, "UNKNOWN_PLAN");
+    }
+    return plan;
+  }
+
+  /**
+   * Subscription store (subscriptions must be configured)
+   */
+  private getSubscriptionStore(): SubscriptionStore {
+    if (!this.subscriptionStore) {
+      throw new X402Error("Subscriptions are not configured", "SUBSCRIPTIONS_NOT_CONFIGURED");
+    }
+    return this.subscriptionStore;
+  }
+
+  /**
+   * Sign an access pass for a verified payment. With maxUses, the paying
+   * request counts as the first use.
+   */
+  private async issuePass(
+    requirements: PaymentRequirements,
+    payer: string,
+    signature: string
+  ): Promise<{ token: string; expiresAt: number }> {
+    const { duration, scope, maxUses } = requirements.pass!;
+    if (maxUses) {
+      await this.signatureStore.consume(`pass:${signature}`, duration, maxUses);
+    }
+
+    const expiresAt = Math.floor(Date.now() / 1000) + duration;
+    const payload: AccessPassPayload = {
+      typ: "x402-pass",
+      sub: payer,
+      aud: this.config.recipientAddress,
+      scp: scope,
+      req: { ...requirements, quote: undefined },
+      jti: signature,
+      max: maxUses,
+      exp: expiresAt,
+    };
+
+    return { token: encodeSignedToken(payload, this.config.passSigner!), expiresAt };
+  }
+
+  /**
+   * Admit a request with an access pass: valid signature, not expired,
+   * in scope, sold by one of the route's pass options and not used up.
+   * Checked without the RPC.
+   */
+  private async usePass(
+    request: PaymentRequest,
+    accepted: PaymentOptions[],
+    token: string
+  ): Promise<PaymentInfo | null> {
+    const pass = decodeSignedToken<AccessPassPayload>(token, this.config.passSigner!);
+    if (
+      !pass ||
+      pass.typ !== "x402-pass" ||
+      pass.aud !== this.config.recipientAddress ||
+      pass.req.recipient !== this.config.recipientAddress ||
+      !matchesPassScope(pass.scp, request.path)
+    ) {
+      return null;
+    }
+
+    // Only passes the route currently sells: a pass bought elsewhere (or
+    // for a scope the route no longer offers) does not cover it
+    const offered = accepted.some(
+      (option) =>
+        !!option.pass &&
+        (option.pass.scope ?? request.path) === pass.scp &&
+        (option.network ?? this.config.network) === pass.req.network &&
+        option.token === pass.req.token &&
+        (!option.mint || option.mint === pass.req.mint)
+    );
+    if (!offered) {
+      return null;
+    }
+
+    if (pass.max) {
+      const ttl = Math.max(pass.exp - Math.floor(Date.now() / 1000), 1);
+      if (!(await this.signatureStore.consume(`pass:${pass.jti}`, ttl, pass.max))) {
+        return null;
+      }
+    }
+
+    const requirements = pass.req;
+    return {
+      verified: true,
+      payer: pass.sub,
+      amount: baseUnitsToAmount(
+        BigInt(requirements.amount),
+        getRequirementsDecimals(requirements)
+      ),
+      token: requirements.token,
+      scheme: requirements.scheme,
+      quantity: 1,
+      expiresAt: pass.exp,
+      requirements,
+    };
+  }
+
+  /**
+   * Pay a request from the payer's prepaid credit, in the first credit option
+   * whose balance covers its price. Returns null if none does.
+   */
+  private async spendCredit(
+    accepted: PaymentOptions[],
+    payer: string,
+    headers: Record<string, string>,
+    proof?: PaymentProof
+  ): Promise<PaymentInfo | null> {
+    for (const option of accepted) {
+      if (!option.topUp) continue;
+
+      // Requirements for a single request, to price the debit
+      const requirements = await this.createPaymentRequirements({ ...option, topUp: undefined });
+      const balance = await this.creditStore!.debit(
+        this.getCreditAccount(requirements, payer),
+        BigInt(requirements.amount)
+      );
+      if (balance === null) continue;
+
+      const decimals = getRequirementsDecimals(requirements);
+      const credit = baseUnitsToAmount(balance, decimals);
+      headers["X-Credit-Balance"] = `${credit} ${requirements.token}`;
+
+      return {
+        proof,
+        verified: true,
+        payer,
+        amount: baseUnitsToAmount(BigInt(requirements.amount), decimals),
+        token: requirements.token,
+        scheme: requirements.scheme,
+        quantity: 1,
+        credit,
+        requirements,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Credit ledger account of a payer for a token
+   */
+  private getCreditAccount(requirements: PaymentRequirements, payer: string): string {
+    return `${requirements.network}:${requirements.mint ?? requirements.token}:${payer}`;
+  }
+
+  /**
+   * Sign a session token letting the payer spend their prepaid credit
+   */
+  private issueSession(payer: string): string {
+    const ttl = this.config.credits!.sessionTTL ?? 86400;
+    const payload: SessionPayload = {
+      typ: "x402-session",
+      sub: payer,
+      aud: this.config.recipientAddress,
+      exp: Math.floor(Date.now() / 1000) + ttl,
+    };
+    return encodeSignedToken(payload, this.config.credits!.signer);
+  }
+
+  /**
+   * Read the payer from a session token (null if invalid or expired)
+   */
+  private readSession(token: string): string | null {
+    const session = decodeSignedToken<SessionPayload>(token, this.config.credits!.signer);
+    if (
+      !session ||
+      session.typ !== "x402-session" ||
+      session.aud !== this.config.recipientAddress ||
+      typeof session.sub !== "string"
+    ) {
+      return null;
+    }
+    return session.sub;
+  }
+
+  /**
+   * Create the settle() callback for a verified "upto" authorization.
+   * Charges the used amount once and exposes it in the X-Payment-Charge header
+   * (added to `headers`, the response headers of the request).
+   */
+  private createSettlement(
+    headers: Record<string, string>,
+    requirements: PaymentRequirements,
+    authorization: PaymentAuthorization
+  ): (amount: string) => Promise<SettlementResult> {
+    let settled = false;
+
+    return async (amount: string) => {
+      if (settled) {
+        throw new X402Error("Payment has already been settled", "ALREADY_SETTLED");
+      }
+      settled = true;
+
+      const decimals = getRequirementsDecimals(requirements);
+      const baseUnits = amountToBaseUnits(amount, decimals);
+      if (baseUnits > authorization.maxAmount) {
+        throw new X402Error(
+          `Usage ${amount} ${requirements.token} exceeds the authorized maximum`,
+          "SETTLEMENT_EXCEEDS_AUTHORIZATION"
+        );
+      }
+
+      let signature: string | undefined;
+      if (baseUnits > BigInt(0)) {
+        signature = await settlePayment(
+          this.getConnection(requirements.network),
+          this.config.settlementKeypair!,
+          authorization,
+          requirements,
+          baseUnits
+        );
+        headers["X-Payment-Settlement"] = signature;
+      }
+
+      const charged = baseUnitsToAmount(baseUnits, decimals);
+      headers["X-Payment-Charge"] = `${charged} ${requirements.token}`;
+
+      if (signature && this.config.wireFormat === "x402") {
+        headers["X-PAYMENT-RESPONSE"] = encodePaymentResponseHeader({
+          success: true,
+          transaction: signature,
+          network: toSpecNetwork(requirements.network),
+          payer: authorization.owner,
         });
       }
+
+      return { amount: charged, signature, headers };
+    };
+  }
+
+  /**
+   * Create payment requirements and remember them for verifying the retry,
+   * either in the local registry or as a signed quote carried by the client
+   */
+  private async issueRequirements(
+    accepted: PaymentOptions[],
+    resource: string
+  ): Promise<PaymentRequirements[]> {
+    // Options offered together share one requestId (one issuance)
+    const requestId = this.generateRequestId();
+    const path = resource.slice(resource.indexOf(" ") + 1);
+    const requirements = await Promise.all(
+      accepted.map((options) =>
+        this.createPaymentRequirements({
+          ...options,
+          pass: options.pass && { ...options.pass, scope: options.pass.scope ?? path },
+          requestId: options.requestId || requestId,
+        })
+      )
+    );
+
+    if (this.config.quoteSigner) {
+      requirements.forEach((option) => {
+        option.quote = this.signQuote(option, resource);
+      });
+    } else {
+      this.issued.add(requirements, resource);
+    }
+
+    return requirements;
+  }
+
+  /**
+   * Find the requirements a payment proof was issued for
+   */
+  private resolveRequirements(
+    proof: PaymentProof,
+    resource: string
+  ): PaymentRequirements[] {
+    if (!this.config.quoteSigner) {
+      return (proof.requestId && this.issued.get(proof.requestId, resource)) || [];
+    }
+
+    if (!proof.quote) return [];
+
+    const quote = decodeSignedToken<QuotePayload>(
+      proof.quote,
+      this.config.quoteSigner
+    );
+
+    if (
+      !quote ||
+      quote.typ !== "x402-quote" ||
+      quote.rfp !== fingerprint(resource) ||
+      quote.req.recipient !== this.config.recipientAddress ||
+      (proof.requestId && proof.requestId !== quote.req.requestId)
+    ) {
+      return [];
+    }
+
+    return [quote.req];
+  }
+
+  /**
+   * Sign requirements into a quote bound to a resource
+   */
+  private signQuote(
+    requirements: PaymentRequirements,
+    resource: string
+  ): string {
+    const ttl = (this.config.requirementsTTL ?? 300) * 1000;
+    let expiresAt = Date.now() + ttl;
+    if (requirements.deadline) {
+      expiresAt = Math.min(expiresAt, requirements.deadline);
+    }
+
+    const payload: QuotePayload = {
+      typ: "x402-quote",
+      req: requirements,
+      rfp: fingerprint(resource),
+      exp: Math.floor(expiresAt / 1000),
     };
+
+    return encodeSignedToken(payload, this.config.quoteSigner!);
+  }
+
+  /**
+   * Number of requests a verified payment covers: whole multiples of the
+   * price, up to the option's maxQuantity
+   */
+  private getPaidQuantity(requirements: PaymentRequirements, paid: bigint): number {
+    const price = BigInt(requirements.amount);
+    if (!requirements.maxQuantity || price === BigInt(0)) return 1;
+
+    const multiples = paid / price;
+    return multiples > BigInt(requirements.maxQuantity)
+      ? requirements.maxQuantity
+      : Math.max(Number(multiples), 1);
+  }
+
+  /**
+   * Keep the most informative failure across payment options: one that got
+   * past matching the option (e.g. INSUFFICIENT_AMOUNT) beats a mismatch
+   */
+  private pickFailure(
+    current: VerificationFailure | null,
+    next: VerificationFailure
+  ): VerificationFailure {
+    const mismatch: VerificationFailureReason[] = [
+      "NETWORK_MISMATCH",
+      "WRONG_RECIPIENT",
+      "WRONG_MINT",
+    ];
+    if (!current || (mismatch.includes(current.reason) && !mismatch.includes(next.reason))) {
+      return next;
+    }
+    return current;
+  }
+
+  /**
+   * Check a proof's network and timestamp against the requirements
+   */
+  private checkProof(
+    proof: PaymentProof,
+    requirements: PaymentRequirements
+  ): VerificationFailure | null {
+    if (proof.network !== requirements.network) {
+      return verificationFailure(
+        "NETWORK_MISMATCH",
+        `Payment made on ${proof.network}, expected ${requirements.network}`
+      );
+    }
+
+    if (requirements.deadline && proof.timestamp > requirements.deadline) {
+      return verificationFailure("EXPIRED", "Payment made after the requirements deadline");
+    }
+
+    return null;
+  }
+
+  /**
+   * Identify the resource a request targets (method + path)
+   */
+  private getResource(request: PaymentRequest): string {
+    return `${request.method} ${request.path}`;
+  }
+
+  /**
+   * Build the 402 response in the configured wire format
+   */
+  private createPaymentRequired(
+    request: PaymentRequest,
+    accepted: PaymentOptions[],
+    requirements: PaymentRequirements[],
+    headers: Record<string, string>,
+    failure?: PaymentFailure
+  ): PaymentResponse {
+    if (this.config.wireFormat === "x402") {
+      const body = createSpecPaymentRequiredResponse(
+        requirements,
+        {
+          resource: request.url,
+          description: accepted[0].description,
+          mimeType: accepted[0].mimeType,
+          maxTimeoutSeconds: this.config.requirementsTTL,
+        },
+        failure?.error
+      );
+      return {
+        status: 402,
+        headers,
+        body: { ...body, code: failure?.code, reason: failure?.reason },
+      };
+    }
+
+    // Native: first option at the top level, every option in accepts[]
+    const body = requirements.length > 1
+      ? { ...requirements[0], accepts: requirements }
+      : requirements[0];
+
+    if (!failure) {
+      return { status: 402, headers, body };
+    }
+
+    return { status: 402, headers, body: { ...failure, requirements: body } };
+  }
+
+  /**
+   * 402 failure for a payment proof that was already used
+   */
+  private getReplayFailure(proof: PaymentProof): PaymentFailure {
+    const error = new PaymentAlreadyConsumedError(proof.signature);
+    return { error: error.message, code: error.code, reason: "REPLAYED" };
   }
 
   /**
@@ -247,18 +1655,35 @@ export class X402Server {
   /**
    * Get transaction status
    */
-  async getTransactionStatus(signature: string) {
-    return getTransactionStatus(this.connection, signature);
+  async getTransactionStatus(signature: string, network?: Network) {
+    return getTransactionStatus(this.getConnection(network), signature);
   }
 
   /**
-   * Get connection
+   * Get connection (defaults to the server network)
    */
-  getConnection(): Connection {
-    return this.connection;
+  getConnection(network: Network = this.config.network): Connection {
+    let connection = this.connections.get(network);
+
+    if (!connection) {
+      const endpoint = this.config.rpcEndpoints?.[network] ??
+        (network === this.config.network ? this.config.rpcEndpoint : undefined);
+      connection = createConnection(network, endpoint);
+      this.connections.set(network, connection);
+    }
+
+    return connection;
   }
 }
 
+/**
+ * First value of a request header
+ */
+function getHeader(request: PaymentRequest, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
 /**
  * Helper function to create x402 server instance
  */
@@ -271,8 +1696,8 @@ export function createX402Server(config: X402ServerConfig): X402Server {
  */
 export function x402Middleware(
   config: X402ServerConfig,
-  paymentOptions: PaymentOptions
+  pricing: ExpressPricing
 ) {
   const server = new X402Server(config);
-  return server.requirePayment(paymentOptions);
+  return server.requirePayment(pricing);
 }
@@ -0,0 +1,145 @@
+/**
+ * x402 Solana SDK - Signature Store
+ * Tracks which payment signatures have already been spent so that a single
+ * on-chain payment cannot be replayed against multiple requests
+ */
+
+/**
+ * Signature consumption ledger
+ *
+ * Implement this interface to share the ledger across server instances.
+ * `consume` MUST be atomic: the check and the write happen in one operation,
+ * otherwise two concurrent requests carrying the same proof can both pass.
+ * A payment covering several requests (see `maxQuantity`) is consumed up to
+ * `maxUses` times.
+ *
+ * @example Redis
+ * ```typescript
+ * const store: SignatureStore = {
+ *   async consume(signature, ttl, maxUses = 1) {
+ *     const key = `x402:sig:${signature}`;
+ *     const uses = await redis.incr(key);
+ *     if (uses === 1 && ttl) await redis.expire(key, ttl);
+ *     return uses <= maxUses;
+ *   },
+ *   async isConsumed(signature, maxUses = 1) {
+ *     return Number((await redis.get(`x402:sig:${signature}`)) ?? 0) >= maxUses;
+ *   },
+ *   async release(signature) {
+ *     await redis.del(`x402:sig:${signature}`);
+ *   },
+ * };
+ * ```
+ *
+ * @example Postgres
+ * ```typescript
+ * const store: SignatureStore = {
+ *   async consume(signature, ttl, maxUses = 1) {
+ *     const { rowCount } = await pool.query(
+ *       `INSERT INTO x402_signatures (signature, uses) VALUES ($1, 1)
+ *        ON CONFLICT (signature) DO UPDATE SET uses = x402_signatures.uses + 1
+ *        WHERE x402_signatures.uses < $2`,
+ *       [signature, maxUses]
+ *     );
+ *     return rowCount === 1;
+ *   },
+ *   async isConsumed(signature, maxUses = 1) {
+ *     const { rowCount } = await pool.query(
+ *       "SELECT 1 FROM x402_signatures WHERE signature = $1 AND uses >= $2",
+ *       [signature, maxUses]
+ *     );
+ *     return rowCount === 1;
+ *   },
+ *   async release(signature) {
+ *     await pool.query("DELETE FROM x402_signatures WHERE signature = $1", [signature]);
+ *   },
+ * };
+ * ```
+ */
+export interface SignatureStore {
+  /**
+   * Use a signature once (of `maxUses`, default 1).
+   * Returns true if this call used it, false if it was already used up.
+   */
+  consume(signature: string, ttlSeconds?: number, maxUses?: number): Promise<boolean>;
+
+  /**
+   * Check whether a signature has already been used `maxUses` times
+   */
+  isConsumed(signature: string, maxUses?: number): Promise<boolean>;
+
+  /**
+   * Forget a signature (optional). Ends short-lived locks early, such as a
+   * subscription sign-up whose first charge failed; without it they expire
+   * with their TTL.
+   */
+  release?(signature: string): Promise<void>;
+}
+
+/**
+ * In-memory signature store (single process only)
+ */
+export class MemorySignatureStore implements SignatureStore {
+  // signature -> uses and expiry (ms), Infinity = never
+  private consumed = new Map<string, { uses: number; expiresAt: number }>();
+  private lastPrune = 0;
+
+  async consume(signature: string, ttlSeconds?: number, maxUses = 1): Promise<boolean> {
+    this.prune();
+
+    // Check and write without awaiting in between, so this stays atomic
+    const entry = this.getEntry(signature);
+    if (entry && entry.uses >= maxUses) {
+      return false;
+    }
+
+    if (entry) {
+      entry.uses++;
+      return true;
+    }
+
+    const expiresAt = ttlSeconds ? Date.now() + ttlSeconds * 1000 : Infinity;
+    this.consumed.set(signature, { uses: 1, expiresAt });
+    return true;
+  }
+
+  async isConsumed(signature: string, maxUses = 1): Promise<boolean> {
+    const entry = this.getEntry(signature);
+    return entry !== undefined && entry.uses >= maxUses;
+  }
+
+  async release(signature: string): Promise<void> {
+    this.consumed.delete(signature);
+  }
+
+  clear(): void {
+    this.consumed.clear();
+  }
+
+  /**
+   * Live entry of a signature (expired entries are removed)
+   */
+  private getEntry(signature: string): { uses: number; expiresAt: number } | undefined {
+    const entry = this.consumed.get(signature);
+    if (entry && Date.now() > entry.expiresAt) {
+      this.consumed.delete(signature);
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * Remove expired entries
+   */
+  private prune(): void {
+    const now = Date.now();
+    if (now - this.lastPrune < 60_000) return;
+    this.lastPrune = now;
+
+    this.consumed.forEach((entry, signature) => {
+      if (now > entry.expiresAt) {
+        this.consumed.delete(signature);
+      }
+    });
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * x402 Solana SDK - Signer Loaders
+ * Load keypairs from Solana CLI keypair files, base58 or JSON-array secret
+ * keys, BIP39 mnemonics, password-protected keystores and env vars
+ */
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHmac,
+  pbkdf2Sync,
+  randomBytes,
+  scrypt,
+} from "crypto";
+import { existsSync, readFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { Keypair } from "@solana/web3.js";
+import { validateMnemonic } from "@scure/bip39";
+import { wordlist } from "@scure/bip39/wordlists/english";
+import { z } from "zod";
+import { X402Error } from "@shared/x402-types";
+
+/**
+ * Where the Solana CLI keeps its default keypair
+ */
+export const DEFAULT_KEYPAIR_PATH = join(homedir(), ".config", "solana", "id.json");
+
+/**
+ * Derivation path used by Phantom, Solflare and `solana-keygen --derivation-path`
+ */
+export const DEFAULT_DERIVATION_PATH = "m/44'/501'/0'/0'";
+
+/**
+ * Mnemonic options
+ */
+export interface MnemonicOptions {
+  // BIP44 path (hardened segments only), or null for the seed itself, as
+  // `solana-keygen new` / `recover` without a derivation path
+  derivationPath?: string | null;
+  passphrase?: string; // Optional BIP39 passphrase
+}
+
+/**
+ * Secret key options
+ */
+export interface SecretKeyOptions {
+  // Accept a 32-byte seed. Off by default: 32 bytes are more likely a
+  // pasted public address than a seed, and would load an unrelated keypair.
+  seed?: boolean;
+}
+
+/**
+ * Options for loadSigner()
+ */
+export interface LoadSignerOptions extends MnemonicOptions, SecretKeyOptions {
+  password?: string; // For keystore files
+}
+
+/**
+ * Password-protected keystore file: the secret key encrypted with
+ * AES-256-GCM under a scrypt-derived key
+ */
+export const KeystoreSchema = z.object({
+  version: z.literal(1),
+  publicKey: z.string(),
+  kdf: z.literal("scrypt"),
+  // Bounded: the file is untrusted, and scrypt memory grows with n × r
+  kdfparams: z.object({
+    n: z.number().int().min(2).max(2 ** 20).refine(
+      (n) => (n & (n - 1)) === 0,
+      "Must be a power of 2"
+    ),
+    r: z.number().int().min(1).max(8),
+    p: z.number().int().min(1).max(4),
+    salt: z.string(), // hex
+  }),
+  cipher: z.literal("aes-256-gcm"),
+  iv: z.string(), // hex
+  tag: z.string(), // hex
+  ciphertext: z.string(), // hex
+});
+
+export type Keystore = z.infer<typeof KeystoreSchema>;
+
+const SCRYPT_PARAMS = { n: 2 ** 17, r: 8, p: 1 };
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+/**
+ * Decode a base58 string (Bitcoin alphabet, as used by Solana)
+ */
+function decodeBase58(text: string): Uint8Array {
+  let value = BigInt(0);
+  for (let i = 0; i < text.length; i++) {
+    const digit = BASE58_ALPHABET.indexOf(text[i]);
+    if (digit < 0) {
+      throw new X402Error(`Invalid base58 character "${text[i]}"`, "INVALID_SECRET_KEY");
+    }
+    value = value * BigInt(58) + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (value > BigInt(0)) {
+    bytes.unshift(Number(value % BigInt(256)));
+    value = value / BigInt(256);
+  }
+  // Leading "1"s are leading zero bytes
+  for (let i = 0; i < text.length && text[i] === "1"; i++) {
+    bytes.unshift(0);
+  }
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Keypair from a 64-byte secret key, or a 32-byte seed when asked for
+ */
+function keypairFromBytes(bytes: Uint8Array, options: SecretKeyOptions = {}): Keypair {
+  if (bytes.length === 64) return Keypair.fromSecretKey(bytes);
+  if (bytes.length === 32 && options.seed) return Keypair.fromSeed(bytes);
+  if (bytes.length === 32) {
+    throw new X402Error(
+      "Secret key must be 64 bytes, got 32: this looks like a public address " +
+      "(pass { seed: true } to load a 32-byte seed)",
+      "INVALID_SECRET_KEY"
+    );
+  }
+  throw new X402Error(
+    `Secret key must be 64 bytes (or a 32-byte seed), got ${bytes.length}`,
+    "INVALID_SECRET_KEY"
+  );
+}
+
+/**
+ * Keypair from a secret key: a JSON array of bytes ("[12,34,...]", as in
+ * Solana CLI keypair files), a base58 string (as exported by Phantom), or
+ * the bytes themselves. 32-byte seeds need `{ seed: true }`.
+ */
+export function keypairFromSecret(
+  secret: string | number[] | Uint8Array,
+  options: SecretKeyOptions = {}
+): Keypair {
+  if (typeof secret !== "string") {
+    return keypairFromBytes(Uint8Array.from(secret), options);
+  }
+
+  const trimmed = secret.trim();
+  if (trimmed.startsWith("[")) {
+    let bytes: unknown;
+    try {
+      bytes = JSON.parse(trimmed);
+    } catch (error) {
+      throw new X402Error("Secret key is not a valid JSON array", "INVALID_SECRET_KEY");
+    }
+    if (!Array.isArray(bytes) || !bytes.every((byte) => Number.isInteger(byte))) {
+      throw new X402Error("Secret key must be an array of bytes", "INVALID_SECRET_KEY");
+    }
+    return keypairFromBytes(Uint8Array.from(bytes), options);
+  }
+
+  return keypairFromBytes(decodeBase58(trimmed), options);
+}
+
+/**
+ * Keypair from a BIP39 mnemonic (English wordlist), derived with SLIP-0010
+ * (ed25519). Unknown words and a wrong checksum throw INVALID_MNEMONIC, so
+ * a typo cannot silently produce another wallet.
+ */
+export function keypairFromMnemonic(mnemonic: string, options: MnemonicOptions = {}): Keypair {
+  const words = mnemonic.normalize("NFKD").trim().split(/\s+/);
+  if (![12, 15, 18, 21, 24].includes(words.length)) {
+    throw new X402Error(
+      `Mnemonic must have 12, 15, 18, 21 or 24 words, got ${words.length}`,
+      "INVALID_MNEMONIC"
+    );
+  }
+
+  // Positions only: the words themselves are secret
+  const unknown = words
+    .map((word, index) => (wordlist.includes(word) ? 0 : index + 1))
+    .filter(Boolean);
+  if (unknown.length > 0) {
+    throw new X402Error(
+      `Mnemonic word ${unknown.join(", ")} is not in the BIP39 English wordlist`,
+      "INVALID_MNEMONIC"
+    );
+  }
+  if (!validateMnemonic(words.join(" "), wordlist)) {
+    throw new X402Error("Mnemonic checksum is invalid (check the word order)", "INVALID_MNEMONIC");
+  }
+
+  const seed = pbkdf2Sync(
+    words.join(" "),
+    `mnemonic${options.passphrase ?? ""}`.normalize("NFKD"),
+    2048,
+    64,
+    "sha512"
+  );
+
+  const path = options.derivationPath === undefined
+    ? DEFAULT_DERIVATION_PATH
+    : options.derivationPath;
+  if (path === null) {
+    return Keypair.fromSeed(seed.subarray(0, 32));
+  }
+
+  const segments = path.split("/");
+  if (segments[0] !== "m" || segments.slice(1).some((segment) => !/^\d+'$/.test(segment))) {
+    throw new X402Error(
+      `Invalid derivation path ${path}: ed25519 supports hardened segments only ` +
+      `(e.g. ${DEFAULT_DERIVATION_PATH})`,
+      "INVALID_DERIVATION_PATH"
+    );
+  }
+
+  let node = createHmac("sha512", "ed25519 seed").update(seed).digest();
+  for (const segment of segments.slice(1)) {
+    const index = Buffer.alloc(4);
+    index.writeUInt32BE((parseInt(segment, 10) | 0x80000000) >>> 0);
+    node = createHmac("sha512", node.subarray(32))
+      .update(Buffer.concat([Buffer.alloc(1), node.subarray(0, 32), index]))
+      .digest();
+  }
+  return Keypair.fromSeed(node.subarray(0, 32));
+}
+
+/**
+ * Load a Solana CLI keypair file (JSON array of secret key bytes).
+ * A leading "~" is expanded to the home directory.
+ */
+export function loadKeypairFile(file: string = DEFAULT_KEYPAIR_PATH): Keypair {
+  const path = file.replace(/^~(?=$|\/)/, homedir());
+  let contents: string;
+  try {
+    contents = readFileSync(path, "utf8");
+  } catch (error) {
+    throw new X402Error(`Cannot read keypair file ${path}`, "KEYPAIR_NOT_FOUND", error);
+  }
+  return keypairFromSecret(contents);
+}
+
+/**
+ * Read a keypair or keystore file as JSON
+ */
+function readJsonFile(path: string): unknown {
+  let contents: string;
+  try {
+    contents = readFileSync(path, "utf8");
+  } catch (error) {
+    throw new X402Error(`Cannot read keypair file ${path}`, "KEYPAIR_NOT_FOUND", error);
+  }
+  try {
+    return JSON.parse(contents);
+  } catch (error) {
+    throw new X402Error(`${path} is not a JSON keypair or keystore file`, "INVALID_KEYSTORE");
+  }
+}
+
+function deriveKeystoreKey(
+  password: string,
+  salt: Buffer,
+  params: { n: number; r: number; p: number }
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password.normalize("NFKC"),
+      salt,
+      32,
+      { N: params.n, r: params.r, p: params.p, maxmem: 256 * params.n * params.r },
+      (error, key) => (error ? reject(error) : resolve(key))
+    );
+  });
+}
+
+/**
+ * Encrypt a keypair into a keystore (save it as JSON)
+ */
+export async function encryptKeystore(keypair: Keypair, password: string): Promise<Keystore> {
+  const salt = randomBytes(32);
+  const iv = randomBytes(12);
+  const key = await deriveKeystoreKey(password, salt, SCRYPT_PARAMS);
+
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(keypair.secretKey), cipher.final()]);
+
+  return {
+    version: 1,
+    publicKey: keypair.publicKey.toBase58(),
+    kdf: "scrypt",
+    kdfparams: { ...SCRYPT_PARAMS, salt: salt.toString("hex") },
+    cipher: "aes-256-gcm",
+    iv: iv.toString("hex"),
+    tag: cipher.getAuthTag().toString("hex"),
+    ciphertext: ciphertext.toString("hex"),
+  };
+}
+
+/**
+ * Decrypt a keystore. Throws KEYSTORE_DECRYPTION_FAILED for a wrong password.
+ */
+export async function decryptKeystore(keystore: unknown, password: string): Promise<Keypair> {
+  const parsed = KeystoreSchema.safeParse(keystore);
+  if (!parsed.success) {
+    throw new X402Error("Not a valid keystore", "INVALID_KEYSTORE", parsed.error.issues);
+  }
+
+  const { kdfparams, iv, tag, ciphertext, publicKey } = parsed.data;
+  const key = await deriveKeystoreKey(password, Buffer.from(kdfparams.salt, "hex"), kdfparams);
+
+  let secretKey: Buffer;
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(iv, "hex"));
+    decipher.setAuthTag(Buffer.from(tag, "hex"));
+    secretKey = Buffer.concat([decipher.update(Buffer.from(ciphertext, "hex")), decipher.final()]);
+  } catch (error) {
+    throw new X402Error("Wrong keystore password", "KEYSTORE_DECRYPTION_FAILED");
+  }
+
+  const keypair = keypairFromBytes(secretKey);
+  if (keypair.publicKey.toBase58() !== publicKey) {
+    throw new X402Error("Keystore public key does not match", "INVALID_KEYSTORE");
+  }
+  return keypair;
+}
+
+/**
+ * Load a password-protected keystore file
+ */
+export async function loadKeystore(file: string, password: string): Promise<Keypair> {
+  return decryptKeystore(readJsonFile(file), password);
+}
+
+/**
+ * Load a keypair from whatever `source` holds: a keypair or keystore file
+ * path, a JSON-array or base58 secret key, or a mnemonic
+ */
+export async function loadSigner(
+  source: string,
+  options: LoadSignerOptions = {}
+): Promise<Keypair> {
+  const value = source.trim();
+
+  if (value.startsWith("[")) {
+    return keypairFromSecret(value, options);
+  }
+
+  if (/^\S+(\s+\S+){11,}$/.test(value)) {
+    return keypairFromMnemonic(value, options);
+  }
+
+  const path = value.replace(/^~(?=$|\/)/, homedir());
+  if (!existsSync(path)) {
+    // Not a file: a base58 secret key, unless it looks like a path
+    if (/^[1-9A-HJ-NP-Za-km-z]+$/.test(value)) return keypairFromSecret(value, options);
+    throw new X402Error(`Cannot read keypair file ${path}`, "KEYPAIR_NOT_FOUND");
+  }
+
+  const contents = readJsonFile(path);
+  if (Array.isArray(contents)) {
+    return keypairFromSecret(contents, options);
+  }
+  if (options.password === undefined) {
+    throw new X402Error(`Keystore ${path} needs a password`, "KEYSTORE_PASSWORD_REQUIRED");
+  }
+  return decryptKeystore(contents, options.password);
+}
+
+/**
+ * Load a keypair from an environment variable (anything loadSigner()
+ * accepts). `<NAME>_PASSWORD` unlocks keystores and
+ * `<NAME>_DERIVATION_PATH` overrides the mnemonic path.
+ */
+export async function loadSignerFromEnv(name = "X402_PRIVATE_KEY"): Promise<Keypair> {
+  const value = process.env[name];
+  if (!value) {
+    throw new X402Error(`Environment variable ${name} is not set`, "KEYPAIR_NOT_FOUND");
+  }
+
+  return loadSigner(value, {
+    password: process.env[`${name}_PASSWORD`],
+    derivationPath: process.env[`${name}_DERIVATION_PATH`],
+  });
+}
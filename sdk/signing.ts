@@ -0,0 +1,146 @@
+/**
+ * x402 Solana SDK - Token Signing
+ * Compact signed tokens (JWS compact serialization, JWT compatible) that let
+ * the server hand out data it can later trust without keeping state
+ */
+
+import {
+  createHmac,
+  createHash,
+  sign,
+  verify,
+  timingSafeEqual,
+  KeyObject,
+} from "crypto";
+
+/**
+ * Signs and verifies token payloads
+ */
+export interface TokenSigner {
+  algorithm: "HS256" | "EdDSA";
+  sign(data: Buffer): Buffer;
+  verify(data: Buffer, signature: Buffer): boolean;
+}
+
+/**
+ * HMAC-SHA256 signer using a shared server secret
+ */
+export function createHmacSigner(secret: string | Buffer): TokenSigner {
+  if (!secret || secret.length < 32) {
+    throw new Error("HMAC secret must be at least 32 bytes");
+  }
+
+  const digest = (data: Buffer) =>
+    createHmac("sha256", secret).update(data).digest();
+
+  return {
+    algorithm: "HS256",
+    sign: digest,
+    verify(data, signature) {
+      const expected = digest(data);
+      return (
+        expected.length === signature.length &&
+        timingSafeEqual(expected, signature)
+      );
+    },
+  };
+}
+
+/**
+ * Ed25519 signer. Instances that only verify can omit the private key.
+ *
+ * @example
+ * ```typescript
+ * const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+ * const signer = createEd25519Signer({ privateKey, publicKey });
+ * ```
+ */
+export function createEd25519Signer(keys: {
+  privateKey?: KeyObject;
+  publicKey: KeyObject;
+}): TokenSigner {
+  return {
+    algorithm: "EdDSA",
+    sign(data) {
+      if (!keys.privateKey) {
+        throw new Error("Ed25519 signer has no private key");
+      }
+      return sign(null, data, keys.privateKey);
+    },
+    verify(data, signature) {
+      return verify(null, data, keys.publicKey, signature);
+    },
+  };
+}
+
+/**
+ * Sign a payload into a `header.payload.signature` token
+ */
+export function encodeSignedToken(
+  payload: Record<string, unknown>,
+  signer: TokenSigner
+): string {
+  const header = base64url(JSON.stringify({ alg: signer.algorithm, typ: "JWT" }));
+  const body = base64url(JSON.stringify(payload));
+  const signature = signer.sign(Buffer.from(`${header}.${body}`));
+  return `${header}.${body}.${signature.toString("base64url")}`;
+}
+
+/**
+ * Verify a token and return its payload.
+ * Returns null if the token is malformed, tampered with or past its `exp`.
+ */
+export function decodeSignedToken<T extends Record<string, unknown>>(
+  token: string,
+  signer: TokenSigner
+): T | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  const [header, body, signature] = parts;
+
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, "base64url").toString("utf8"));
+    if (alg !== signer.algorithm) return null;
+
+    const valid = signer.verify(
+      Buffer.from(`${header}.${body}`),
+      Buffer.from(signature, "base64url")
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+    if (typeof payload.exp === "number" && Date.now() / 1000 > payload.exp) {
+      return null;
+    }
+
+    return payload as T;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Read a token's payload WITHOUT verifying it, e.g. a client reading the
+ * expiry of a credential it holds. Never trust the result on the server.
+ */
+export function peekSignedToken<T extends Record<string, unknown>>(token: string): T | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+
+  try {
+    return JSON.parse(Buffer.from(parts[1], "base64url").toString("utf8")) as T;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Short stable fingerprint of a string (e.g. "GET /api/data")
+ */
+export function fingerprint(value: string): string {
+  return createHash("sha256").update(value).digest("base64url").slice(0, 22);
+}
+
+function base64url(value: string): string {
+  return Buffer.from(value, "utf8").toString("base64url");
+}
@@ -0,0 +1,242 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  Connection,
+  Keypair,
+  ParsedTransactionWithMeta,
+  PublicKey,
+  SystemProgram,
+} from "@solana/web3.js";
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID } from "@solana/spl-token";
+import { PaymentRequirements } from "@shared/x402-types";
+import { MEMO_PROGRAM_ID, verifyPaymentTransaction } from "./solana-utils";
+
+const payer = Keypair.generate().publicKey.toBase58();
+const recipient = Keypair.generate().publicKey.toBase58();
+const mint = Keypair.generate().publicKey.toBase58();
+const recipientTokenAccount = Keypair.generate().publicKey;
+
+const solRequirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "devnet",
+  amount: "1000000",
+  token: "SOL",
+  recipient,
+  requestId: "req_1",
+};
+
+const tokenRequirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "devnet",
+  amount: "1000",
+  token: "TEST",
+  mint,
+  decimals: 6,
+  recipient,
+  requestId: "req_2",
+};
+
+function solTransfer(destination: string, lamports: number) {
+  return {
+    program: "system",
+    programId: SystemProgram.programId,
+    parsed: { type: "transfer", info: { source: payer, destination, lamports } },
+  };
+}
+
+function tokenTransfer(
+  type: string,
+  info: Record<string, unknown>,
+  programId: PublicKey = TOKEN_PROGRAM_ID
+) {
+  return {
+    program: "spl-token",
+    programId,
+    parsed: {
+      type,
+      info: { source: Keypair.generate().publicKey.toBase58(), authority: payer, ...info },
+    },
+  };
+}
+
+function memo(text: string) {
+  return { program: "spl-memo", programId: MEMO_PROGRAM_ID, parsed: text };
+}
+
+/**
+ * Parsed transaction as returned by getParsedTransaction. `received` is
+ * the recipient's token balance change, on its token account (index 0).
+ */
+function parsedTransaction(
+  instructions: unknown[],
+  options: { err?: unknown; received?: { mint: string; amount: string } } = {}
+): ParsedTransactionWithMeta {
+  const balance = (amount: string) => ({
+    accountIndex: 0,
+    mint: options.received!.mint,
+    owner: recipient,
+    uiTokenAmount: { amount, decimals: 6, uiAmount: null, uiAmountString: amount },
+  });
+
+  return {
+    slot: 100,
+    blockTime: 1700000000,
+    meta: {
+      err: options.err ?? null,
+      fee: 5000,
+      innerInstructions: [],
+      preBalances: [],
+      postBalances: [],
+      preTokenBalances: options.received ? [balance("0")] : [],
+      postTokenBalances: options.received ? [balance(options.received.amount)] : [],
+    },
+    transaction: {
+      signatures: ["signature"],
+      message: {
+        accountKeys: [{ pubkey: recipientTokenAccount, signer: false, writable: true }],
+        instructions,
+        recentBlockhash: "11111111111111111111111111111111",
+      },
+    },
+  } as unknown as ParsedTransactionWithMeta;
+}
+
+function connectionReturning(transaction: ParsedTransactionWithMeta | null): Connection {
+  return { getParsedTransaction: async () => transaction } as unknown as Connection;
+}
+
+async function verify(transaction: ParsedTransactionWithMeta | null, requirements: PaymentRequirements) {
+  return verifyPaymentTransaction(connectionReturning(transaction), "signature", requirements);
+}
+
+test("accepts a SOL transfer bound to the requirements by its memo", async () => {
+  const result = await verify(
+    parsedTransaction([solTransfer(recipient, 1000000), memo("x402:req_1")]),
+    solRequirements
+  );
+
+  assert.ok(result.valid);
+  assert.equal(result.value.payer, payer);
+  assert.equal(result.value.amount, BigInt(1000000));
+});
+
+test("rejects a payment whose memo names other requirements", async () => {
+  const missing = await verify(parsedTransaction([solTransfer(recipient, 1000000)]), solRequirements);
+  const other = await verify(
+    parsedTransaction([solTransfer(recipient, 1000000), memo("x402:req_other")]),
+    solRequirements
+  );
+
+  assert.equal(!missing.valid && missing.reason, "MEMO_MISMATCH");
+  assert.equal(!other.valid && other.reason, "MEMO_MISMATCH");
+});
+
+test("rejects transfers to another wallet, short payments and failed transactions", async () => {
+  const elsewhere = await verify(
+    parsedTransaction([solTransfer(payer, 1000000), memo("x402:req_1")]),
+    solRequirements
+  );
+  const short = await verify(
+    parsedTransaction([solTransfer(recipient, 999999), memo("x402:req_1")]),
+    solRequirements
+  );
+  const failed = await verify(
+    parsedTransaction([solTransfer(recipient, 1000000), memo("x402:req_1")], {
+      err: { InstructionError: [0, "Custom"] },
+    }),
+    solRequirements
+  );
+  const missing = await verify(null, solRequirements);
+
+  assert.equal(!elsewhere.valid && elsewhere.reason, "WRONG_RECIPIENT");
+  assert.equal(!short.valid && short.reason, "INSUFFICIENT_AMOUNT");
+  assert.equal(!failed.valid && failed.reason, "TX_FAILED");
+  assert.equal(!missing.valid && missing.reason, "NOT_FOUND");
+});
+
+test("accepts an SPL transfer to the recipient's token account", async () => {
+  const result = await verify(
+    parsedTransaction(
+      [
+        tokenTransfer("transferChecked", {
+          destination: recipientTokenAccount.toBase58(),
+          mint,
+          tokenAmount: { amount: "1000" },
+        }),
+        memo("x402:req_2"),
+      ],
+      { received: { mint, amount: "1000" } }
+    ),
+    tokenRequirements
+  );
+
+  assert.ok(result.valid);
+  assert.equal(result.value.mint, mint);
+  assert.equal(result.value.amount, BigInt(1000));
+});
+
+test("rejects an SPL transfer in another token", async () => {
+  const otherMint = Keypair.generate().publicKey.toBase58();
+  const result = await verify(
+    parsedTransaction(
+      [
+        tokenTransfer("transferChecked", {
+          destination: recipientTokenAccount.toBase58(),
+          mint: otherMint,
+          tokenAmount: { amount: "1000" },
+        }),
+        memo("x402:req_2"),
+      ],
+      { received: { mint: otherMint, amount: "1000" } }
+    ),
+    tokenRequirements
+  );
+
+  assert.equal(!result.valid && result.reason, "WRONG_MINT");
+});
+
+test("counts Token-2022 transfers net of the withheld fee", async () => {
+  const transfer = parsedTransaction(
+    [
+      tokenTransfer(
+        "transferCheckedWithFee",
+        {
+          destination: recipientTokenAccount.toBase58(),
+          mint,
+          tokenAmount: { amount: "1000" },
+          feeAmount: { amount: "10" },
+        },
+        TOKEN_2022_PROGRAM_ID
+      ),
+      memo("x402:req_2"),
+    ],
+    { received: { mint, amount: "990" } }
+  );
+
+  const gross = await verify(transfer, tokenRequirements);
+  const net = await verify(transfer, { ...tokenRequirements, amount: "990" });
+
+  assert.equal(!gross.valid && gross.reason, "INSUFFICIENT_AMOUNT");
+  assert.ok(net.valid);
+  assert.equal(net.value.amount, BigInt(990));
+});
+
+test("never counts more than the recipient's balance actually grew", async () => {
+  // A plain transfer instruction on a Token-2022 mint whose fee is withheld
+  const result = await verify(
+    parsedTransaction(
+      [
+        tokenTransfer(
+          "transfer",
+          { destination: recipientTokenAccount.toBase58(), amount: "1000" },
+          TOKEN_2022_PROGRAM_ID
+        ),
+        memo("x402:req_2"),
+      ],
+      { received: { mint, amount: "950" } }
+    ),
+    tokenRequirements
+  );
+
+  assert.equal(!result.valid && result.reason, "INSUFFICIENT_AMOUNT");
+});
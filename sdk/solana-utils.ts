@@ -7,13 +7,24 @@ import {
   SendOptions,
   Keypair,
   TransactionSignature,
+  TransactionInstruction,
+  ParsedTransactionWithMeta,
+  ParsedInstruction,
+  PartiallyDecodedInstruction,
+  TokenBalance,
 } from "@solana/web3.js";
 import {
   getAssociatedTokenAddress,
-  createTransferInstruction,
+  createTransferCheckedInstruction,
+  createTransferCheckedWithFeeInstruction,
   TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
   ASSOCIATED_TOKEN_PROGRAM_ID,
   createAssociatedTokenAccountInstruction,
+  createApproveCheckedInstruction,
+  createRevokeInstruction,
+  getAccount,
+  unpackAccount,
 } from "@solana/spl-token";
 import {
   Network,
@@ -21,31 +32,18 @@ import {
   PaymentRequirements,
   TransactionFailedError,
   TransactionStatus,
+  VerificationFailureReason,
 } from "@shared/x402-types";
+import {
+  MintInfo,
+  WRAPPED_SOL_MINT,
+  calculateGrossAmount,
+  getMintInfo,
+  tokenRegistry,
+} from "./token-registry";
 
 /**
- * Token mint addresses for Solana networks
- */
-const TOKEN_MINTS: Record<Network, Record<TokenType, string>> = {
-  "mainnet-beta": {
-    SOL: "So11111111111111111111111111111111111111112", // Wrapped SOL
-    USDC: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
-    USDT: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
-  },
-  devnet: {
-    SOL: "So11111111111111111111111111111111111111112",
-    USDC: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU", // USDC Devnet
-    USDT: "EJwZgeZrdC8TXTQbQBoL6bfuAnFUUy1PVCMB4DYPzVaS",
-  },
-  testnet: {
-    SOL: "So11111111111111111111111111111111111111112",
-    USDC: "CpMah17kQEL2wqyMKt3mZBdTnZbkbfx4nqmQMFDP5vwp",
-    USDT: "EJwZgeZrdC8TXTQbQBoL6bfuAnFUUy1PVCMB4DYPzVaS",
-  },
-};
-
-/**
- * Token decimals
+ * Decimals of the built-in tokens
  */
 const TOKEN_DECIMALS: Record<TokenType, number> = {
   SOL: 9,
@@ -53,6 +51,94 @@ const TOKEN_DECIMALS: Record<TokenType, number> = {
   USDT: 6,
 };
 
+/**
+ * Get the mint address of a token on a network (wrapped SOL for "SOL").
+ * Returns undefined for symbols missing from the token registry.
+ */
+export function getTokenMint(network: Network, token: string): string | undefined {
+  if (token === "SOL") return WRAPPED_SOL_MINT;
+  return tokenRegistry.resolve(network, token)?.mint;
+}
+
+/**
+ * Whether requirements ask for native SOL rather than an SPL token
+ */
+export function isNativeSol(requirements: PaymentRequirements): boolean {
+  return requirements.token === "SOL" && !requirements.mint;
+}
+
+/**
+ * Resolve the mint of SPL token requirements: the explicit mint, else the
+ * registry entry for the token symbol. Decimals and program come from chain.
+ */
+export async function resolvePaymentMint(
+  connection: Connection,
+  requirements: PaymentRequirements
+): Promise<MintInfo> {
+  const mint = requirements.mint ?? getTokenMint(requirements.network, requirements.token);
+  if (!mint || isNativeSol(requirements)) {
+    throw new TransactionFailedError(
+      `Unknown token ${requirements.token} on ${requirements.network}; ` +
+      `set a mint address or register the token`
+    );
+  }
+  return getMintInfo(connection, mint);
+}
+
+/**
+ * Decimals of the token the requirements are priced in
+ */
+export function getRequirementsDecimals(requirements: PaymentRequirements): number {
+  if (requirements.decimals !== undefined) return requirements.decimals;
+  if (isNativeSol(requirements)) return TOKEN_DECIMALS.SOL;
+
+  const token = tokenRegistry.resolve(
+    requirements.network,
+    requirements.mint ?? requirements.token
+  );
+  if (!token) {
+    throw new TransactionFailedError(`Unknown decimals for token ${requirements.token}`);
+  }
+  return token.decimals;
+}
+
+/**
+ * Symbol and decimals of the token a payment actually transfers, from the
+ * registry or the chain by mint, never from the server's `token` label or
+ * `decimals`, so a server cannot misstate what it charges. Unregistered
+ * mints are identified by address.
+ */
+export async function resolvePaymentToken(
+  connection: Connection,
+  requirements: PaymentRequirements
+): Promise<{ token: string; decimals: number }> {
+  if (isNativeSol(requirements)) {
+    return { token: "SOL", decimals: TOKEN_DECIMALS.SOL };
+  }
+
+  const known = tokenRegistry.resolve(
+    requirements.network,
+    requirements.mint ?? requirements.token
+  );
+  if (known) {
+    return { token: known.symbol, decimals: known.decimals };
+  }
+
+  const mint = requirements.mint ?? requirements.token;
+  const info = await getMintInfo(connection, mint);
+  return { token: mint, decimals: info.decimals };
+}
+
+/**
+ * SPL Memo program IDs (v2 is used for new memos, v1 is still accepted)
+ */
+export const MEMO_PROGRAM_ID = new PublicKey(
+  "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr"
+);
+const MEMO_V1_PROGRAM_ID = new PublicKey(
+  "Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo"
+);
+
 /**
  * Get RPC endpoint for network
  */
@@ -83,10 +169,11 @@ export function createConnection(
 }
 
 /**
- * Convert amount string to base units (lamports or token base units)
+ * Convert amount string to base units (lamports or token base units).
+ * Accepts a built-in token or the decimals of any other token.
  */
-export function amountToBaseUnits(amount: string, token: TokenType): bigint {
-  const decimals = TOKEN_DECIMALS[token];
+export function amountToBaseUnits(amount: string, token: TokenType | number): bigint {
+  const decimals = typeof token === "number" ? token : TOKEN_DECIMALS[token];
   const parts = amount.split(".");
   const whole = parts[0] || "0";
   const fraction = (parts[1] || "").padEnd(decimals, "0").slice(0, decimals);
@@ -96,14 +183,147 @@ export function amountToBaseUnits(amount: string, token: TokenType): bigint {
 /**
  * Convert base units to display amount
  */
-export function baseUnitsToAmount(baseUnits: bigint, token: TokenType): string {
-  const decimals = TOKEN_DECIMALS[token];
+export function baseUnitsToAmount(baseUnits: bigint, token: TokenType | number): string {
+  const decimals = typeof token === "number" ? token : TOKEN_DECIMALS[token];
+  if (decimals === 0) return baseUnits.toString();
   const str = baseUnits.toString().padStart(decimals + 1, "0");
   const whole = str.slice(0, -decimals) || "0";
   const fraction = str.slice(-decimals);
   return `${whole}.${fraction}`.replace(/\.?0+$/, "");
 }
 
+/**
+ * Memo that binds a payment to the requirements it was made for.
+ * Uses the requestId when present, otherwise the requirements memo text.
+ */
+export function getPaymentMemo(requirements: PaymentRequirements): string | undefined {
+  if (requirements.requestId) {
+    return `x402:${requirements.requestId}`;
+  }
+  return requirements.memo;
+}
+
+/**
+ * Create an SPL Memo instruction
+ */
+export function createMemoInstruction(
+  memo: string,
+  signer?: PublicKey
+): TransactionInstruction {
+  return new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: signer ? [{ pubkey: signer, isSigner: true, isWritable: false }] : [],
+    data: Buffer.from(memo, "utf8"),
+  });
+}
+
+/**
+ * All instructions of a parsed transaction, including inner (CPI) instructions
+ */
+function getAllInstructions(
+  transaction: ParsedTransactionWithMeta
+): (ParsedInstruction | PartiallyDecodedInstruction)[] {
+  const inner = (transaction.meta?.innerInstructions || []).flatMap(
+    (set) => set.instructions
+  );
+  return [...transaction.transaction.message.instructions, ...inner];
+}
+
+/**
+ * Extract SPL Memo strings from a fetched transaction
+ */
+function getTransactionMemos(transaction: ParsedTransactionWithMeta): string[] {
+  return getAllInstructions(transaction)
+    .filter(
+      (instruction) =>
+        instruction.programId.equals(MEMO_PROGRAM_ID) ||
+        instruction.programId.equals(MEMO_V1_PROGRAM_ID)
+    )
+    .map((instruction) => ("parsed" in instruction ? instruction.parsed : null))
+    .filter((memo): memo is string => typeof memo === "string");
+}
+
+/**
+ * Get a wallet's balance of the required token in base units
+ * (0 if it has no token account)
+ */
+export async function getPaymentBalance(
+  connection: Connection,
+  owner: PublicKey,
+  requirements: PaymentRequirements
+): Promise<bigint> {
+  if (isNativeSol(requirements)) {
+    return BigInt(await connection.getBalance(owner));
+  }
+
+  const mintInfo = await resolvePaymentMint(connection, requirements);
+  const ata = await getAssociatedTokenAddress(
+    new PublicKey(mintInfo.mint),
+    owner,
+    false,
+    new PublicKey(mintInfo.programId),
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+
+  try {
+    const balance = await connection.getTokenAccountBalance(ata);
+    return BigInt(balance.value.amount);
+  } catch (error) {
+    // Account does not exist
+    return BigInt(0);
+  }
+}
+
+/**
+ * Create a transferChecked instruction that delivers `netAmount` to the
+ * destination. For Token-2022 mints with a transfer fee the gross amount is
+ * sent and the fee is declared, so the recipient still receives `netAmount`.
+ */
+async function createNetTransferInstruction(
+  connection: Connection,
+  mintInfo: MintInfo,
+  source: PublicKey,
+  destination: PublicKey,
+  owner: PublicKey,
+  netAmount: bigint
+): Promise<{ instruction: TransactionInstruction; amount: bigint }> {
+  const mint = new PublicKey(mintInfo.mint);
+  const programId = new PublicKey(mintInfo.programId);
+
+  if (!mintInfo.transferFeeConfig) {
+    return {
+      instruction: createTransferCheckedInstruction(
+        source,
+        mint,
+        destination,
+        owner,
+        netAmount,
+        mintInfo.decimals,
+        [],
+        programId
+      ),
+      amount: netAmount,
+    };
+  }
+
+  const { epoch } = await connection.getEpochInfo();
+  const { amount, fee } = calculateGrossAmount(mintInfo, BigInt(epoch), netAmount);
+  return {
+    instruction: createTransferCheckedWithFeeInstruction(
+      source,
+      mint,
+      destination,
+      owner,
+      amount,
+      mintInfo.decimals,
+      fee,
+      [],
+      programId
+    ),
+    amount,
+  };
+}
+
 /**
  * Create a SOL payment transaction
  */
@@ -133,10 +353,10 @@ export async function createSOLPaymentTransaction(
     })
   );
 
-  // Add memo if provided
-  if (requirements.memo) {
-    // Note: Memo program would be added here in production
-    // For now, we'll skip it to keep dependencies minimal
+  // Bind the payment to the issued requirements
+  const memo = getPaymentMemo(requirements);
+  if (memo) {
+    transaction.add(createMemoInstruction(memo, payer));
   }
 
   // Get recent blockhash
@@ -148,7 +368,7 @@ export async function createSOLPaymentTransaction(
 }
 
 /**
- * Create a token (USDC/USDT) payment transaction
+ * Create an SPL token payment transaction (SPL Token or Token-2022)
  */
 export async function createTokenPaymentTransaction(
   connection: Connection,
@@ -156,9 +376,9 @@ export async function createTokenPaymentTransaction(
   requirements: PaymentRequirements
 ): Promise<Transaction> {
   const recipient = new PublicKey(requirements.recipient);
-  const mintAddress = new PublicKey(
-    TOKEN_MINTS[requirements.network][requirements.token]
-  );
+  const mintInfo = await resolvePaymentMint(connection, requirements);
+  const mintAddress = new PublicKey(mintInfo.mint);
+  const programId = new PublicKey(mintInfo.programId);
   
   // Parse amount as BigInt (already in token base units)
   const amount = BigInt(requirements.amount);
@@ -168,7 +388,7 @@ export async function createTokenPaymentTransaction(
     mintAddress,
     payer,
     false,
-    TOKEN_PROGRAM_ID,
+    programId,
     ASSOCIATED_TOKEN_PROGRAM_ID
   );
 
@@ -176,7 +396,7 @@ export async function createTokenPaymentTransaction(
     mintAddress,
     recipient,
     false,
-    TOKEN_PROGRAM_ID,
+    programId,
     ASSOCIATED_TOKEN_PROGRAM_ID
   );
 
@@ -200,25 +420,106 @@ export async function createTokenPaymentTransaction(
         recipientATA,
         recipient,
         mintAddress,
-        TOKEN_PROGRAM_ID,
+        programId,
         ASSOCIATED_TOKEN_PROGRAM_ID
       )
     );
   }
 
-  // Add transfer instruction
-  transaction.add(
-    createTransferInstruction(
+  // Add transfer instruction (grossed up for Token-2022 transfer fees)
+  const transfer = await createNetTransferInstruction(
+    connection,
+    mintInfo,
+    senderATA,
+    recipientATA,
+    payer,
+    amount
+  );
+  transaction.add(transfer.instruction);
+
+  // Bind the payment to the issued requirements
+  const memo = getPaymentMemo(requirements);
+  if (memo) {
+    transaction.add(createMemoInstruction(memo, payer));
+  }
+
+  // Get recent blockhash
+  const { blockhash } = await connection.getLatestBlockhash();
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = payer;
+
+  return transaction;
+}
+
+/**
+ * Create a token approval transaction for the "upto" scheme.
+ * Delegates up to `requirements.amount` to the server's settlement authority,
+ * which later transfers only the amount actually used. Refuses when the
+ * token account already delegates to another key.
+ */
+export async function createTokenApprovalTransaction(
+  connection: Connection,
+  payer: PublicKey,
+  requirements: PaymentRequirements
+): Promise<Transaction> {
+  if (isNativeSol(requirements) || !requirements.settlementAuthority) {
+    throw new TransactionFailedError(
+      "Usage-based (upto) payments require an SPL token and a settlement authority"
+    );
+  }
+
+  const delegate = new PublicKey(requirements.settlementAuthority);
+  const mintInfo = await resolvePaymentMint(connection, requirements);
+  const mintAddress = new PublicKey(mintInfo.mint);
+  const programId = new PublicKey(mintInfo.programId);
+  const maxAmount = BigInt(requirements.amount);
+
+  const senderATA = await getAssociatedTokenAddress(
+    mintAddress,
+    payer,
+    false,
+    programId,
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+
+  const senderAccount = await connection.getAccountInfo(senderATA);
+  if (!senderAccount) {
+    throw new TransactionFailedError(
+      `Sender does not have an associated token account for ${requirements.token}. ` +
+      `Please create one first at address: ${senderATA.toBase58()}`
+    );
+  }
+
+  // A token account has a single delegate: approving would silently end
+  // another server's "upto" authorization or subscription
+  const { delegate: current, delegatedAmount } = unpackAccount(senderATA, senderAccount, programId);
+  if (current && !current.equals(delegate) && delegatedAmount > BigInt(0)) {
+    throw new TransactionFailedError(
+      `Token account ${senderATA.toBase58()} already delegates to ${current.toBase58()}. ` +
+      `Revoke that delegation before authorizing another one`,
+      { delegate: current.toBase58(), delegatedAmount: delegatedAmount.toString() }
+    );
+  }
+
+  const transaction = new Transaction().add(
+    createApproveCheckedInstruction(
       senderATA,
-      recipientATA,
+      mintAddress,
+      delegate,
       payer,
-      amount,
+      maxAmount,
+      mintInfo.decimals,
       [],
-      TOKEN_PROGRAM_ID
+      programId
     )
   );
 
-  // Get recent blockhash
+  // Bind the authorization to the issued requirements
+  const memo = getPaymentMemo(requirements);
+  if (memo) {
+    transaction.add(createMemoInstruction(memo, payer));
+  }
+
   const { blockhash } = await connection.getLatestBlockhash();
   transaction.recentBlockhash = blockhash;
   transaction.feePayer = payer;
@@ -226,6 +527,61 @@ export async function createTokenPaymentTransaction(
   return transaction;
 }
 
+/**
+ * Create a transaction revoking the payer's token delegation for the
+ * requirements' token (ends "upto" authorizations and subscriptions).
+ * SPL token accounts have a single delegate, so this revokes any delegate.
+ */
+export async function createRevokeTransaction(
+  connection: Connection,
+  payer: PublicKey,
+  requirements: PaymentRequirements
+): Promise<Transaction> {
+  const mintInfo = await resolvePaymentMint(connection, requirements);
+  const programId = new PublicKey(mintInfo.programId);
+  const senderATA = await getAssociatedTokenAddress(
+    new PublicKey(mintInfo.mint),
+    payer,
+    false,
+    programId,
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+
+  const transaction = new Transaction().add(
+    createRevokeInstruction(senderATA, payer, [], programId)
+  );
+
+  const { blockhash } = await connection.getLatestBlockhash();
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = payer;
+
+  return transaction;
+}
+
+/**
+ * Amount a token account currently delegates to `delegate`, in base units.
+ * Returns null if the delegation was revoked or handed to someone else.
+ */
+export async function getDelegatedAmount(
+  connection: Connection,
+  tokenAccount: string,
+  delegate: string,
+  requirements: PaymentRequirements
+): Promise<bigint | null> {
+  const mintInfo = await resolvePaymentMint(connection, requirements);
+  const account = await getAccount(
+    connection,
+    new PublicKey(tokenAccount),
+    "confirmed",
+    new PublicKey(mintInfo.programId)
+  );
+
+  if (!account.delegate || account.delegate.toBase58() !== delegate) {
+    return null;
+  }
+  return account.delegatedAmount;
+}
+
 /**
  * Create payment transaction based on requirements
  */
@@ -234,13 +590,39 @@ export async function createPaymentTransaction(
   payer: PublicKey,
   requirements: PaymentRequirements
 ): Promise<Transaction> {
-  if (requirements.token === "SOL") {
+  if (requirements.scheme === "upto") {
+    return createTokenApprovalTransaction(connection, payer, requirements);
+  }
+
+  if (isNativeSol(requirements)) {
     return createSOLPaymentTransaction(connection, payer, requirements);
   } else {
     return createTokenPaymentTransaction(connection, payer, requirements);
   }
 }
 
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+/**
+ * Signature (base58) of a signed transaction, known before it is sent
+ */
+export function getTransactionSignature(transaction: Transaction): TransactionSignature | null {
+  const bytes = transaction.signature;
+  if (!bytes) return null;
+
+  let value = BigInt("0x" + (bytes.toString("hex") || "0"));
+  let encoded = "";
+  while (value > BigInt(0)) {
+    encoded = BASE58_ALPHABET[Number(value % BigInt(58))] + encoded;
+    value /= BigInt(58);
+  }
+  // Leading zero bytes are written as "1"
+  for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+    encoded = "1" + encoded;
+  }
+  return encoded;
+}
+
 /**
  * Sign and send transaction
  */
@@ -321,125 +703,550 @@ export async function getTransactionStatus(
 }
 
 /**
- * Verify a payment transaction exists and matches requirements
- * SECURITY CRITICAL: This function validates on-chain payments
+ * Why a payment was rejected
  */
-export async function verifyPaymentTransaction(
+export interface VerificationFailure {
+  valid: false;
+  reason: VerificationFailureReason;
+  message: string;
+}
+
+/**
+ * Outcome of verifying a payment: the verified value, or why it was rejected
+ */
+export type VerificationResult<T> = { valid: true; value: T } | VerificationFailure;
+
+/**
+ * Failures that may resolve on their own, so the same proof can be retried
+ */
+export const TRANSIENT_VERIFICATION_FAILURES: VerificationFailureReason[] = [
+  "NOT_FOUND",
+  "NOT_FINAL",
+  "RPC_ERROR",
+];
+
+/**
+ * Build a failed verification result
+ */
+export function verificationFailure(
+  reason: VerificationFailureReason,
+  message: string
+): VerificationFailure {
+  return { valid: false, reason, message };
+}
+
+/**
+ * Fetch a transaction that succeeded at the given commitment level
+ */
+async function fetchSuccessfulTransaction(
   connection: Connection,
   signature: TransactionSignature,
-  requirements: PaymentRequirements,
-  commitment: "confirmed" | "finalized" = "confirmed"
-): Promise<boolean> {
+  commitment: "confirmed" | "finalized"
+): Promise<VerificationResult<ParsedTransactionWithMeta>> {
+  let transaction: ParsedTransactionWithMeta | null;
   try {
     // Fetch transaction with proper commitment level (confirmed or finalized)
-    const transaction = await connection.getTransaction(signature, {
+    transaction = await connection.getParsedTransaction(signature, {
       commitment,
       maxSupportedTransactionVersion: 0,
     });
+  } catch (error) {
+    return verificationFailure(
+      "RPC_ERROR",
+      `Failed to fetch transaction: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
 
-    if (!transaction) {
-      console.error("Transaction not found:", signature);
-      return false;
+  if (!transaction) {
+    return verificationFailure(
+      "NOT_FOUND",
+      `Transaction ${signature} not found at ${commitment} commitment`
+    );
+  }
+
+  // CRITICAL: Check transaction succeeded
+  if (transaction.meta?.err) {
+    return verificationFailure(
+      "TX_FAILED",
+      `Transaction failed on-chain: ${JSON.stringify(transaction.meta.err)}`
+    );
+  }
+
+  // Ensure proper finality
+  if (commitment === "finalized" && transaction.slot) {
+    const currentSlot = await connection.getSlot(commitment);
+    // Transaction must be old enough to be finalized
+    if (currentSlot - transaction.slot < 32) {
+      return verificationFailure("NOT_FINAL", "Transaction not yet finalized");
     }
+  }
+
+  return { valid: true, value: transaction };
+}
+
+/**
+ * Check the transaction references the requirements it was made for.
+ * Returns the failure, or null if the memo matches.
+ */
+function checkPaymentMemo(
+  transaction: ParsedTransactionWithMeta,
+  requirements: PaymentRequirements
+): VerificationFailure | null {
+  if (!requirements.requestId) return null;
+
+  const expectedMemo = getPaymentMemo(requirements);
+  const memos = getTransactionMemos(transaction);
+  if (!memos.includes(expectedMemo!)) {
+    return verificationFailure(
+      "MEMO_MISMATCH",
+      `Payment memo mismatch: expected "${expectedMemo}", found ${JSON.stringify(memos)}`
+    );
+  }
 
-    // CRITICAL: Check transaction succeeded
-    if (transaction.meta?.err) {
-      console.error("Transaction failed on-chain:", transaction.meta.err);
-      return false;
+  return null;
+}
+
+/**
+ * A transfer instruction found in a transaction
+ */
+interface ParsedTransfer {
+  authority: string; // Wallet (or delegate) that authorized the transfer
+  destination: string; // Recipient wallet (SOL) or token account (SPL)
+  amount: bigint; // Base units credited, net of any Token-2022 fee
+  native: boolean; // System transfer of lamports
+  mint: string | null; // Named by transferChecked; null otherwise
+}
+
+/**
+ * Extract System and SPL token transfers (transfer, transferChecked,
+ * transferCheckedWithFee), including those made through CPI
+ */
+function getTransactionTransfers(transaction: ParsedTransactionWithMeta): ParsedTransfer[] {
+  const transfers: ParsedTransfer[] = [];
+
+  getAllInstructions(transaction).forEach((instruction) => {
+    if (!("parsed" in instruction) || typeof instruction.parsed !== "object") return;
+    const { type, info } = instruction.parsed as { type: string; info: Record<string, any> };
+
+    if (instruction.program === "system" && type === "transfer") {
+      transfers.push({
+        authority: info.source,
+        destination: info.destination,
+        amount: BigInt(info.lamports),
+        native: true,
+        mint: null,
+      });
+      return;
     }
 
-    // Ensure proper finality
-    if (commitment === "finalized" && transaction.slot) {
-      const currentSlot = await connection.getSlot(commitment);
-      // Transaction must be old enough to be finalized
-      if (currentSlot - transaction.slot < 32) {
-        console.warn("Transaction not yet finalized");
-        return false;
-      }
+    if (
+      instruction.program === "spl-token" &&
+      (type === "transfer" || type === "transferChecked" || type === "transferCheckedWithFee")
+    ) {
+      const gross = BigInt(info.amount ?? info.tokenAmount?.amount ?? 0);
+      const fee = BigInt(info.feeAmount?.amount ?? 0);
+      transfers.push({
+        authority: info.authority ?? info.multisigAuthority,
+        destination: info.destination,
+        amount: gross - fee,
+        native: false,
+        mint: info.mint ?? null,
+      });
     }
+  });
 
-    const recipient = new PublicKey(requirements.recipient);
+  return transfers;
+}
+
+/**
+ * Owner and mint of the token accounts touched by a transaction
+ */
+function getTokenAccounts(
+  transaction: ParsedTransactionWithMeta
+): Map<string, { owner?: string; mint: string }> {
+  const accountKeys = transaction.transaction.message.accountKeys;
+  const accounts = new Map<string, { owner?: string; mint: string }>();
+
+  const balances = [
+    ...(transaction.meta?.preTokenBalances || []),
+    ...(transaction.meta?.postTokenBalances || []),
+  ];
+  balances.forEach((balance) => {
+    const address = accountKeys[balance.accountIndex]?.pubkey.toBase58();
+    if (address) {
+      accounts.set(address, { owner: balance.owner, mint: balance.mint });
+    }
+  });
+
+  return accounts;
+}
+
+/**
+ * Change of a wallet's token balance within a transaction
+ */
+function getTokenBalanceChange(
+  transaction: ParsedTransactionWithMeta,
+  owner: string,
+  mint: string
+): bigint {
+  const sum = (balances: TokenBalance[] | null | undefined) =>
+    (balances || [])
+      .filter((balance) => balance.owner === owner && balance.mint === mint)
+      .reduce((total, balance) => total + BigInt(balance.uiTokenAmount.amount), BigInt(0));
+
+  return sum(transaction.meta?.postTokenBalances) - sum(transaction.meta?.preTokenBalances);
+}
+
+/**
+ * A payment verified on chain
+ */
+export interface VerifiedPayment {
+  signature: string;
+  payer: string; // Wallet that authorized the transfer (or the delegation for "upto")
+  amount: bigint; // Base units received (authorized maximum for "upto")
+  mint: string | null; // null for native SOL
+  slot: number;
+  blockTime: number | null; // Unix timestamp, when the RPC node knows it
+}
+
+/**
+ * Verify a payment transaction exists and matches requirements.
+ * Parses the transfer instructions themselves (including inner instructions)
+ * rather than balance deltas, so unrelated inflows cannot count as payment.
+ * SECURITY CRITICAL: This function validates on-chain payments
+ */
+export async function verifyPaymentTransaction(
+  connection: Connection,
+  signature: TransactionSignature,
+  requirements: PaymentRequirements,
+  commitment: "confirmed" | "finalized" = "confirmed"
+): Promise<VerificationResult<VerifiedPayment>> {
+  // Usage-based payments authorize a maximum instead of transferring it
+  if (requirements.scheme === "upto") {
+    const authorization = await verifyPaymentAuthorization(
+      connection,
+      signature,
+      requirements,
+      commitment
+    );
+    if (!authorization.valid) return authorization;
+
+    return {
+      valid: true,
+      value: {
+        signature,
+        payer: authorization.value.owner,
+        amount: authorization.value.maxAmount,
+        mint: authorization.value.mint,
+        slot: authorization.value.slot,
+        blockTime: authorization.value.blockTime,
+      },
+    };
+  }
+
+  try {
+    const fetched = await fetchSuccessfulTransaction(
+      connection,
+      signature,
+      commitment
+    );
+    if (!fetched.valid) return fetched;
+
+    const transaction = fetched.value;
+    const memoFailure = checkPaymentMemo(transaction, requirements);
+    if (memoFailure) return memoFailure;
+
+    const recipient = requirements.recipient;
     const expectedAmount = BigInt(requirements.amount);
 
-    // Verify SOL transfers
-    if (requirements.token === "SOL") {
-      const accountKeys = transaction.transaction.message.getAccountKeys();
-      const recipientIndex = accountKeys.staticAccountKeys.findIndex((key) =>
-        key.equals(recipient)
+    const mint = isNativeSol(requirements)
+      ? null
+      : requirements.mint ?? getTokenMint(requirements.network, requirements.token);
+    if (mint === undefined) {
+      return verificationFailure("WRONG_MINT", `Unsupported token type: ${requirements.token}`);
+    }
+
+    // Transfers reaching the recipient, in any token
+    const tokenAccounts = getTokenAccounts(transaction);
+    const received = getTransactionTransfers(transaction).filter((transfer) =>
+      transfer.native
+        ? transfer.destination === recipient
+        : tokenAccounts.get(transfer.destination)?.owner === recipient
+    );
+
+    // ...of which those in the required token
+    const payments = received.filter((transfer) => {
+      if (mint === null) return transfer.native;
+      const account = tokenAccounts.get(transfer.destination);
+      return (
+        !transfer.native &&
+        account?.mint === mint &&
+        (transfer.mint === null || transfer.mint === mint)
       );
+    });
 
-      if (recipientIndex === -1) {
-        console.error("Recipient not found in transaction");
-        return false;
-      }
+    if (payments.length === 0) {
+      return received.length > 0
+        ? verificationFailure("WRONG_MINT", `Transfer to the recipient is not in ${requirements.token}`)
+        : verificationFailure("WRONG_RECIPIENT", "No transfer to the recipient found in transaction");
+    }
 
-      const preBalance = BigInt(transaction.meta?.preBalances[recipientIndex] || 0);
-      const postBalance = BigInt(transaction.meta?.postBalances[recipientIndex] || 0);
-      const actualAmount = postBalance - preBalance;
+    // Credit the payer who sent the most (a payment has a single payer)
+    const totals = new Map<string, bigint>();
+    payments.forEach((transfer) => {
+      const total = totals.get(transfer.authority) || BigInt(0);
+      totals.set(transfer.authority, total + transfer.amount);
+    });
+    let [payer, actualAmount] = Array.from(totals.entries()).reduce((best, entry) =>
+      entry[1] > best[1] ? entry : best
+    );
 
-      // Allow some tolerance for fees (actual should be >= expected)
-      if (actualAmount < expectedAmount) {
-        console.error(
-          `Insufficient payment: expected ${expectedAmount}, got ${actualAmount}`
-        );
-        return false;
+    // Withheld Token-2022 fees never reach the recipient's balance
+    if (mint !== null) {
+      const balanceChange = getTokenBalanceChange(transaction, recipient, mint);
+      if (balanceChange < actualAmount) {
+        actualAmount = balanceChange;
       }
-
-      return true;
     }
 
-    // Verify token transfers (USDC/USDT)
-    if (requirements.token === "USDC" || requirements.token === "USDT") {
-      const mintAddress = new PublicKey(
-        TOKEN_MINTS[requirements.network][requirements.token]
+    if (actualAmount < expectedAmount) {
+      return verificationFailure(
+        "INSUFFICIENT_AMOUNT",
+        `Insufficient payment: expected ${expectedAmount}, got ${actualAmount}`
       );
+    }
 
-      // Get recipient's associated token address
-      const recipientATA = await getAssociatedTokenAddress(
-        mintAddress,
-        recipient,
-        false,
-        TOKEN_PROGRAM_ID,
-        ASSOCIATED_TOKEN_PROGRAM_ID
-      );
+    return {
+      valid: true,
+      value: {
+        signature,
+        payer,
+        amount: actualAmount,
+        mint,
+        slot: transaction.slot,
+        blockTime: transaction.blockTime ?? null,
+      },
+    };
+  } catch (error) {
+    return verificationFailure(
+      "RPC_ERROR",
+      `Error verifying payment: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
 
-      // Parse token balance changes from transaction metadata
-      const postTokenBalances = transaction.meta?.postTokenBalances || [];
-      const preTokenBalances = transaction.meta?.preTokenBalances || [];
+/**
+ * Delegation granted by an "upto" payment
+ */
+export interface PaymentAuthorization {
+  owner: string; // Wallet that approved the delegation
+  source: string; // Token account settlements are drawn from
+  mint: string;
+  maxAmount: bigint; // Authorized maximum in base units
+  slot: number;
+  blockTime: number | null;
+}
 
-      // Find the recipient's token account in post balances
-      const postBalance = postTokenBalances.find(
-        (balance) => balance.owner === recipient.toBase58() &&
-                    balance.mint === mintAddress.toBase58()
+/**
+ * Verify an "upto" authorization transaction: the payer must have delegated
+ * at least `requirements.amount` of the required token to the settlement
+ * authority, and the delegation must still be in place.
+ * SECURITY CRITICAL: This function validates on-chain payments
+ */
+export async function verifyPaymentAuthorization(
+  connection: Connection,
+  signature: TransactionSignature,
+  requirements: PaymentRequirements,
+  commitment: "confirmed" | "finalized" = "confirmed"
+): Promise<VerificationResult<PaymentAuthorization>> {
+  try {
+    if (isNativeSol(requirements) || !requirements.settlementAuthority) {
+      return verificationFailure(
+        "WRONG_MINT",
+        `Unsupported upto payment requirements: ${requirements.token}`
       );
+    }
 
-      const preBalance = preTokenBalances.find(
-        (balance) => balance.owner === recipient.toBase58() &&
-                    balance.mint === mintAddress.toBase58()
-      );
+    const mint = requirements.mint ?? getTokenMint(requirements.network, requirements.token);
+    if (!mint) {
+      return verificationFailure("WRONG_MINT", `Unknown token for upto payment: ${requirements.token}`);
+    }
 
-      if (!postBalance) {
-        console.error("Recipient token balance not found in transaction");
-        return false;
-      }
+    const fetched = await fetchSuccessfulTransaction(
+      connection,
+      signature,
+      commitment
+    );
+    if (!fetched.valid) return fetched;
 
-      const actualAmount = BigInt(postBalance.uiTokenAmount.amount) -
-                          BigInt(preBalance?.uiTokenAmount.amount || 0);
+    const transaction = fetched.value;
+    const memoFailure = checkPaymentMemo(transaction, requirements);
+    if (memoFailure) return memoFailure;
 
-      if (actualAmount < expectedAmount) {
-        console.error(
-          `Insufficient token payment: expected ${expectedAmount}, got ${actualAmount}`
-        );
-        return false;
-      }
+    const delegate = new PublicKey(requirements.settlementAuthority);
+    const mintAddress = new PublicKey(mint);
+    const maxAmount = BigInt(requirements.amount);
+
+    // Find the approve/approveChecked instruction delegating to the settlement authority
+    const approval = getAllInstructions(transaction)
+      .map((instruction) => {
+        if (
+          !("parsed" in instruction) ||
+          instruction.program !== "spl-token" ||
+          typeof instruction.parsed !== "object"
+        ) {
+          return null;
+        }
+        const { type, info } = instruction.parsed as { type: string; info: Record<string, any> };
+        if (type !== "approve" && type !== "approveChecked") return null;
+        if (type === "approveChecked" && info.mint !== mint) return null;
+
+        return {
+          programId: instruction.programId,
+          source: new PublicKey(info.source),
+          delegate: new PublicKey(info.delegate),
+          owner: new PublicKey(info.owner ?? info.multisigOwner),
+          amount: BigInt(info.amount ?? info.tokenAmount?.amount ?? 0),
+        };
+      })
+      .find((candidate) => candidate !== null && candidate.delegate.equals(delegate));
+
+    if (!approval) {
+      return verificationFailure(
+        "WRONG_RECIPIENT",
+        "Approval to settlement authority not found in transaction"
+      );
+    }
+
+    if (approval.amount < maxAmount) {
+      return verificationFailure(
+        "INSUFFICIENT_AMOUNT",
+        `Insufficient authorization: expected ${maxAmount}, got ${approval.amount}`
+      );
+    }
 
-      return true;
+    // The delegation must still be in place (not revoked or overwritten)
+    const account = await getAccount(
+      connection,
+      approval.source,
+      commitment,
+      approval.programId
+    );
+    if (!account.mint.equals(mintAddress)) {
+      return verificationFailure("WRONG_MINT", "Approved token account holds a different mint");
+    }
+    if (
+      !account.owner.equals(approval.owner) ||
+      !account.delegate?.equals(delegate) ||
+      account.delegatedAmount < maxAmount
+    ) {
+      return verificationFailure(
+        "AUTHORIZATION_REVOKED",
+        "Token delegation no longer matches the authorization"
+      );
     }
 
-    console.error("Unsupported token type:", requirements.token);
-    return false;
+    return {
+      valid: true,
+      value: {
+        owner: approval.owner.toBase58(),
+        source: approval.source.toBase58(),
+        mint,
+        maxAmount,
+        slot: transaction.slot,
+        blockTime: transaction.blockTime ?? null,
+      },
+    };
   } catch (error) {
-    console.error("Error verifying payment:", error);
-    return false;
+    return verificationFailure(
+      "RPC_ERROR",
+      `Error verifying payment authorization: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
   }
 }
+
+/**
+ * Settle an "upto" payment by transferring the used amount from the payer's
+ * token account to the recipient, signed by the settlement authority
+ */
+export async function settlePayment(
+  connection: Connection,
+  authority: Keypair,
+  authorization: PaymentAuthorization,
+  requirements: PaymentRequirements,
+  amount: bigint,
+  commitment: "confirmed" | "finalized" = "confirmed"
+): Promise<TransactionSignature> {
+  if (amount > authorization.maxAmount) {
+    throw new TransactionFailedError(
+      `Settlement amount ${amount} exceeds authorized maximum ${authorization.maxAmount}`
+    );
+  }
+
+  const recipient = new PublicKey(requirements.recipient);
+  const mintInfo = await resolvePaymentMint(connection, requirements);
+  const mintAddress = new PublicKey(mintInfo.mint);
+  const programId = new PublicKey(mintInfo.programId);
+
+  const recipientATA = await getAssociatedTokenAddress(
+    mintAddress,
+    recipient,
+    false,
+    programId,
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+
+  const transaction = new Transaction();
+
+  // Settlement authority pays for the recipient account if it is missing
+  const recipientAccount = await connection.getAccountInfo(recipientATA);
+  if (!recipientAccount) {
+    transaction.add(
+      createAssociatedTokenAccountInstruction(
+        authority.publicKey,
+        recipientATA,
+        recipient,
+        mintAddress,
+        programId,
+        ASSOCIATED_TOKEN_PROGRAM_ID
+      )
+    );
+  }
+
+  // The recipient receives `amount`; transfer fees come out of the delegation
+  const transfer = await createNetTransferInstruction(
+    connection,
+    mintInfo,
+    new PublicKey(authorization.source),
+    recipientATA,
+    authority.publicKey,
+    amount
+  );
+  if (transfer.amount > authorization.maxAmount) {
+    throw new TransactionFailedError(
+      `Settlement amount ${transfer.amount} (including transfer fee) exceeds ` +
+      `authorized maximum ${authorization.maxAmount}`
+    );
+  }
+  transaction.add(transfer.instruction);
+
+  const memo = getPaymentMemo(requirements);
+  if (memo) {
+    transaction.add(createMemoInstruction(memo, authority.publicKey));
+  }
+
+  const { blockhash } = await connection.getLatestBlockhash();
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = authority.publicKey;
+
+  const signature = await signAndSendTransaction(connection, transaction, authority);
+  const confirmed = await confirmTransaction(connection, signature, commitment);
+
+  if (!confirmed) {
+    throw new TransactionFailedError(
+      `Settlement transaction failed to confirm at ${commitment} commitment level`
+    );
+  }
+
+  return signature;
+}
@@ -0,0 +1,90 @@
+/**
+ * x402 Solana SDK - Spend Store
+ * Ledger of payments made by a client, used to enforce rolling budgets
+ */
+
+import { Network } from "@shared/x402-types";
+
+/**
+ * One payment made by the client
+ */
+export interface SpendRecord {
+  origin: string; // e.g. "https://api.example.com"
+  recipient: string;
+  network: Network;
+  token: string; // Token symbol, or mint address for unregistered tokens
+  amount: string; // Base units
+  signature: string;
+  timestamp: number; // Unix time (ms)
+}
+
+/**
+ * Spend ledger
+ *
+ * Implement this interface to persist spending across restarts, so budgets
+ * keep applying to payments made by a previous process.
+ *
+ * @example Redis
+ * ```typescript
+ * const store: SpendStore = {
+ *   async record(entry) {
+ *     await redis.zAdd("x402:spend", { score: entry.timestamp, value: JSON.stringify(entry) });
+ *   },
+ *   async list(since) {
+ *     const entries = await redis.zRangeByScore("x402:spend", since, "+inf");
+ *     return entries.map((entry) => JSON.parse(entry));
+ *   },
+ * };
+ * ```
+ *
+ * @example JSON file (Node.js)
+ * ```typescript
+ * const store: SpendStore = {
+ *   async record(entry) {
+ *     await fs.appendFile("spend.jsonl", JSON.stringify(entry) + "\n");
+ *   },
+ *   async list(since) {
+ *     const lines = (await fs.readFile("spend.jsonl", "utf8").catch(() => "")).split("\n");
+ *     return lines.filter(Boolean).map((line) => JSON.parse(line))
+ *       .filter((entry) => entry.timestamp >= since);
+ *   },
+ * };
+ * ```
+ */
+export interface SpendStore {
+  /**
+   * Record a payment
+   */
+  record(entry: SpendRecord): Promise<void>;
+
+  /**
+   * List payments made at or after `since` (Unix time, ms)
+   */
+  list(since: number): Promise<SpendRecord[]>;
+}
+
+/**
+ * In-memory spend store (forgotten on restart)
+ */
+export class MemorySpendStore implements SpendStore {
+  private records: SpendRecord[] = [];
+  private retention: number;
+
+  constructor(retention: number = 86400) {
+    this.retention = retention * 1000; // Convert to milliseconds
+  }
+
+  async record(entry: SpendRecord): Promise<void> {
+    const cutoff = Date.now() - this.retention;
+    this.records = this.records.filter((record) => record.timestamp >= cutoff);
+    this.records.push(entry);
+  }
+
+  async list(since: number): Promise<SpendRecord[]> {
+    return this.records.filter((record) => record.timestamp >= since);
+  }
+
+  clear(): void {
+    this.records = [];
+  }
+}
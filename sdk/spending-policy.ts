@@ -0,0 +1,307 @@
+/**
+ * x402 Solana SDK - Spending Policy
+ * Limits on what the client pays automatically: per-request caps, rolling
+ * budgets per origin and overall, recipient and network restrictions
+ */
+
+import { Connection } from "@solana/web3.js";
+import {
+  Network,
+  PaymentRequirements,
+  BudgetExceededError,
+  SpendingLimit,
+} from "@shared/x402-types";
+import { amountToBaseUnits, baseUnitsToAmount, resolvePaymentToken } from "./solana-utils";
+import { SpendStore, MemorySpendStore } from "./spend-store";
+
+/**
+ * Amounts in token units, keyed by token symbol (or mint address for
+ * unregistered tokens), e.g. { USDC: "5", SOL: "0.05" }
+ */
+export type TokenLimits = Record<string, string>;
+
+/**
+ * Rolling budgets
+ */
+export interface BudgetLimits {
+  hourly?: TokenLimits; // Last 60 minutes
+  daily?: TokenLimits; // Last 24 hours
+}
+
+/**
+ * Client spending policy. Tokens without a configured limit are not capped.
+ */
+export interface SpendingPolicy {
+  maxPerRequest?: TokenLimits;
+  budget?: BudgetLimits; // Across all origins
+  originBudget?: BudgetLimits; // For each origin, unless overridden below
+  origins?: Record<string, BudgetLimits>; // Per origin, e.g. "https://api.example.com"
+  allowedRecipients?: string[]; // Only pay these addresses
+  deniedRecipients?: string[]; // Never pay these addresses
+  allowedNetworks?: Network[];
+  store?: SpendStore; // Spend ledger (defaults to in-memory)
+}
+
+/**
+ * Default in-memory ledgers, one per policy object, so budgets hold across
+ * clients created from the same policy (e.g. repeated x402Fetch calls)
+ */
+const defaultStores = new WeakMap<SpendingPolicy, SpendStore>();
+
+/**
+ * A payment in progress, counted against the budgets until it is recorded
+ * or released
+ */
+export interface SpendReservation {
+  origin: string;
+  requirements: PaymentRequirements;
+  network: Network;
+  token: string;
+  amount: bigint;
+}
+
+/**
+ * Reservations and the lock serializing reserve(), per policy object (like
+ * the default ledgers), so parallel payments cannot all pass the same check
+ */
+const pendingSpend = new WeakMap<SpendingPolicy, SpendReservation[]>();
+const reserveLocks = new WeakMap<SpendingPolicy, Promise<unknown>>();
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * A limit that applies to a payment, in base units
+ */
+interface AppliedLimit {
+  limit: SpendingLimit;
+  max: bigint;
+  window?: number; // ms; absent for the per-request cap
+  origin?: string; // Only count spend at this origin
+}
+
+/**
+ * Enforces a spending policy and records what was paid
+ */
+export class SpendingGuard {
+  private policy: SpendingPolicy;
+  private store: SpendStore;
+  private connection: Connection;
+  private pending: SpendReservation[];
+
+  constructor(policy: SpendingPolicy, connection: Connection) {
+    this.policy = policy;
+    if (!policy.store && !defaultStores.has(policy)) {
+      defaultStores.set(policy, new MemorySpendStore());
+    }
+    this.store = policy.store || defaultStores.get(policy)!;
+    this.connection = connection;
+
+    if (!pendingSpend.has(policy)) {
+      pendingSpend.set(policy, []);
+    }
+    this.pending = pendingSpend.get(policy)!;
+  }
+
+  /**
+   * Check a payment against the policy, counting payments still in progress.
+   * Returns the violation, or null if the payment is allowed.
+   */
+  async check(
+    origin: string,
+    requirements: PaymentRequirements
+  ): Promise<BudgetExceededError | null> {
+    const { allowedNetworks, allowedRecipients, deniedRecipients } = this.policy;
+
+    if (allowedNetworks && !allowedNetworks.includes(requirements.network)) {
+      return new BudgetExceededError(
+        "NETWORK_NOT_ALLOWED",
+        requirements,
+        `Payments on ${requirements.network} are not allowed`
+      );
+    }
+
+    if (
+      deniedRecipients?.includes(requirements.recipient) ||
+      (allowedRecipients && !allowedRecipients.includes(requirements.recipient))
+    ) {
+      return new BudgetExceededError(
+        "RECIPIENT_NOT_ALLOWED",
+        requirements,
+        `Payments to ${requirements.recipient} are not allowed`
+      );
+    }
+
+    const { token, decimals } = await this.resolveToken(requirements);
+    const amount = BigInt(requirements.amount);
+
+    for (const applied of this.getLimits(origin, token, decimals)) {
+      const spent = await this.getSpent(applied, requirements.network, token);
+      if (spent + amount > applied.max) {
+        return new BudgetExceededError(
+          applied.limit,
+          requirements,
+          `Payment of ${baseUnitsToAmount(amount, decimals)} ${token} exceeds the ` +
+          `${applied.limit} limit of ${baseUnitsToAmount(applied.max, decimals)} ${token} ` +
+          `(already spent ${baseUnitsToAmount(spent, decimals)})`
+        );
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Smallest amount (token units) still payable under any applicable limit,
+   * or null if the token is not capped
+   */
+  async remaining(
+    origin: string,
+    requirements: PaymentRequirements
+  ): Promise<string | null> {
+    const { token, decimals } = await this.resolveToken(requirements);
+
+    let remaining: bigint | null = null;
+    for (const applied of this.getLimits(origin, token, decimals)) {
+      const spent = await this.getSpent(applied, requirements.network, token);
+      const left = applied.max > spent ? applied.max - spent : BigInt(0);
+      if (remaining === null || left < remaining) {
+        remaining = left;
+      }
+    }
+
+    return remaining === null ? null : baseUnitsToAmount(remaining, decimals);
+  }
+
+  /**
+   * Check a payment and reserve its amount before paying. Reservations are
+   * made one at a time, so parallel payments cannot overspend a budget.
+   * Throws the violation if the payment is not allowed; otherwise pass the
+   * reservation to commit() once paid, or release() if the payment failed.
+   */
+  async reserve(origin: string, requirements: PaymentRequirements): Promise<SpendReservation> {
+    const previous = reserveLocks.get(this.policy) ?? Promise.resolve();
+    const reserved = previous.then(async () => {
+      const violation = await this.check(origin, requirements);
+      if (violation) throw violation;
+
+      const { token } = await this.resolveToken(requirements);
+      const reservation: SpendReservation = {
+        origin,
+        requirements,
+        network: requirements.network,
+        token,
+        amount: BigInt(requirements.amount),
+      };
+      this.pending.push(reservation);
+      return reservation;
+    });
+    reserveLocks.set(this.policy, reserved.catch(() => undefined));
+    return reserved;
+  }
+
+  /**
+   * Record a reserved payment once made
+   */
+  async commit(reservation: SpendReservation, signature: string): Promise<void> {
+    try {
+      await this.record(reservation.origin, reservation.requirements, signature);
+    } finally {
+      this.release(reservation);
+    }
+  }
+
+  /**
+   * Drop a reservation whose payment was not made
+   */
+  release(reservation: SpendReservation): void {
+    const index = this.pending.indexOf(reservation);
+    if (index >= 0) {
+      this.pending.splice(index, 1);
+    }
+  }
+
+  /**
+   * Record a payment made under the policy.
+   * "upto" payments are recorded at their authorized maximum.
+   */
+  async record(
+    origin: string,
+    requirements: PaymentRequirements,
+    signature: string
+  ): Promise<void> {
+    const { token } = await this.resolveToken(requirements);
+    await this.store.record({
+      origin,
+      recipient: requirements.recipient,
+      network: requirements.network,
+      token,
+      amount: requirements.amount,
+      signature,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Identify the token actually transferred, so a server cannot dodge a
+   * limit by relabelling a token. Unregistered mints are limited by address.
+   */
+  private resolveToken(
+    requirements: PaymentRequirements
+  ): Promise<{ token: string; decimals: number }> {
+    return resolvePaymentToken(this.connection, requirements);
+  }
+
+  /**
+   * Limits of the policy that apply to a token at an origin
+   */
+  private getLimits(origin: string, token: string, decimals: number): AppliedLimit[] {
+    const limits: AppliedLimit[] = [];
+    const add = (
+      limit: SpendingLimit,
+      values: TokenLimits | undefined,
+      window?: number,
+      scope?: string
+    ) => {
+      const value = values?.[token];
+      if (value !== undefined) {
+        limits.push({ limit, max: amountToBaseUnits(value, decimals), window, origin: scope });
+      }
+    };
+
+    add("MAX_PER_REQUEST", this.policy.maxPerRequest);
+    add("HOURLY_BUDGET", this.policy.budget?.hourly, HOUR);
+    add("DAILY_BUDGET", this.policy.budget?.daily, DAY);
+
+    const originBudget = this.policy.origins?.[origin] ?? this.policy.originBudget;
+    add("ORIGIN_HOURLY_BUDGET", originBudget?.hourly, HOUR, origin);
+    add("ORIGIN_DAILY_BUDGET", originBudget?.daily, DAY, origin);
+
+    return limits;
+  }
+
+  /**
+   * Amount already spent (or reserved) within a limit's window (0 for the
+   * per-request cap)
+   */
+  private async getSpent(
+    applied: AppliedLimit,
+    network: Network,
+    token: string
+  ): Promise<bigint> {
+    if (!applied.window) return BigInt(0);
+
+    const counts = (entry: { network: Network; token: string; origin: string }) =>
+      entry.network === network &&
+      entry.token === token &&
+      (!applied.origin || entry.origin === applied.origin);
+
+    const records = await this.store.list(Date.now() - applied.window);
+    const spent = records
+      .filter(counts)
+      .reduce((total, record) => total + BigInt(record.amount), BigInt(0));
+    return this.pending
+      .filter(counts)
+      .reduce((total, reservation) => total + reservation.amount, spent);
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * x402 Solana SDK - Subscription Store
+ * State of recurring subscriptions billed through SPL token delegation
+ */
+
+import { PaymentRequirements } from "@shared/x402-types";
+
+/**
+ * - active: paid up for the current period
+ * - past_due: the last charge failed (e.g. insufficient balance); retried when due
+ * - cancelled: the subscriber revoked the delegation, or the server cancelled it
+ */
+export type SubscriptionStatus = "active" | "past_due" | "cancelled";
+
+/**
+ * A subscriber's subscription to a plan
+ */
+export interface Subscription {
+  id: string;
+  plan: string; // Plan id
+  subscriber: string; // Wallet that approved the delegation
+  source: string; // Delegated token account charges are pulled from
+  requirements: PaymentRequirements; // Sign-up requirements (network, token, recipient, ...)
+  status: SubscriptionStatus;
+  periodEnd: number; // Unix seconds; the next charge is due then
+  createdAt: number; // Unix seconds
+  lastCharge?: string; // Signature of the latest successful charge
+}
+
+/**
+ * Subscription storage
+ *
+ * Implement this interface to keep subscriptions in your database.
+ *
+ * @example Postgres
+ * ```typescript
+ * const store: SubscriptionStore = {
+ *   async get(id) {
+ *     const { rows } = await pool.query("SELECT data FROM x402_subscriptions WHERE id = $1", [id]);
+ *     return rows[0]?.data ?? null;
+ *   },
+ *   async save(subscription) {
+ *     await pool.query(
+ *       `INSERT INTO x402_subscriptions (id, status, period_end, data) VALUES ($1, $2, $3, $4)
+ *        ON CONFLICT (id) DO UPDATE SET status = $2, period_end = $3, data = $4`,
+ *       [subscription.id, subscription.status, subscription.periodEnd, subscription]
+ *     );
+ *   },
+ *   async listDue(now) {
+ *     const { rows } = await pool.query(
+ *       "SELECT data FROM x402_subscriptions WHERE status <> 'cancelled' AND period_end <= $1",
+ *       [now]
+ *     );
+ *     return rows.map((row) => row.data);
+ *   },
+ * };
+ * ```
+ */
+export interface SubscriptionStore {
+  get(id: string): Promise<Subscription | null>;
+  save(subscription: Subscription): Promise<void>;
+
+  /**
+   * Subscriptions that are not cancelled and whose period ended by `now`
+   * (Unix seconds)
+   */
+  listDue(now: number): Promise<Subscription[]>;
+}
+
+/**
+ * In-memory subscription store (single process only, forgotten on restart)
+ */
+export class MemorySubscriptionStore implements SubscriptionStore {
+  private subscriptions = new Map<string, Subscription>();
+
+  async get(id: string): Promise<Subscription | null> {
+    const subscription = this.subscriptions.get(id);
+    return subscription ? { ...subscription } : null;
+  }
+
+  async save(subscription: Subscription): Promise<void> {
+    this.subscriptions.set(subscription.id, { ...subscription });
+  }
+
+  async listDue(now: number): Promise<Subscription[]> {
+    return Array.from(this.subscriptions.values())
+      .filter((subscription) => subscription.status !== "cancelled" && subscription.periodEnd <= now)
+      .map((subscription) => ({ ...subscription }));
+  }
+
+  clear(): void {
+    this.subscriptions.clear();
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * x402 Solana SDK - Token Registry
+ * Known tokens per network, extendable at runtime, plus on-chain mint info
+ * (decimals, owning program, Token-2022 transfer fees) fetched and cached
+ */
+
+import { Connection, PublicKey } from "@solana/web3.js";
+import {
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  unpackMint,
+  getTransferFeeConfig,
+  calculateEpochFee,
+  TransferFeeConfig,
+} from "@solana/spl-token";
+import { Network } from "@shared/x402-types";
+
+/**
+ * Wrapped SOL mint (also used to identify native SOL in the x402 wire format)
+ */
+export const WRAPPED_SOL_MINT = "So11111111111111111111111111111111111111112";
+
+/**
+ * A token that can be used for payments
+ */
+export interface TokenInfo {
+  symbol: string;
+  mint: string;
+  decimals: number;
+  programId: string; // SPL Token or Token-2022 program
+}
+
+/**
+ * Mint details read from chain
+ */
+export interface MintInfo {
+  mint: string;
+  decimals: number;
+  programId: string;
+  transferFeeConfig: TransferFeeConfig | null; // Token-2022 transfer fee extension
+}
+
+const SPL_TOKEN = TOKEN_PROGRAM_ID.toBase58();
+
+/**
+ * Tokens available out of the box
+ */
+const BUILTIN_TOKENS: Record<Network, TokenInfo[]> = {
+  "mainnet-beta": [
+    { symbol: "USDC", mint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", decimals: 6, programId: SPL_TOKEN },
+    { symbol: "USDT", mint: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB", decimals: 6, programId: SPL_TOKEN },
+  ],
+  devnet: [
+    { symbol: "USDC", mint: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU", decimals: 6, programId: SPL_TOKEN }, // USDC Devnet
+    { symbol: "USDT", mint: "EJwZgeZrdC8TXTQbQBoL6bfuAnFUUy1PVCMB4DYPzVaS", decimals: 6, programId: SPL_TOKEN },
+  ],
+  testnet: [
+    { symbol: "USDC", mint: "CpMah17kQEL2wqyMKt3mZBdTnZbkbfx4nqmQMFDP5vwp", decimals: 6, programId: SPL_TOKEN },
+    { symbol: "USDT", mint: "EJwZgeZrdC8TXTQbQBoL6bfuAnFUUy1PVCMB4DYPzVaS", decimals: 6, programId: SPL_TOKEN },
+  ],
+};
+
+/**
+ * Registry of payment tokens per network, looked up by symbol or mint
+ *
+ * @example
+ * ```typescript
+ * tokenRegistry.register("mainnet-beta", {
+ *   symbol: "PYUSD",
+ *   mint: "2b1kV6DkPAnxd5ixfnxCpjxmKwqjjaYmCZfHsFu24GXo",
+ *   decimals: 6,
+ *   programId: TOKEN_2022_PROGRAM_ID.toBase58(),
+ * });
+ * ```
+ */
+export class TokenRegistry {
+  private tokens = new Map<Network, TokenInfo[]>();
+
+  constructor(tokens: Partial<Record<Network, TokenInfo[]>> = BUILTIN_TOKENS) {
+    Object.entries(tokens).forEach(([network, list]) => {
+      list?.forEach((token) => this.register(network as Network, token));
+    });
+  }
+
+  /**
+   * Add a token, replacing any entry with the same symbol or mint
+   */
+  register(network: Network, token: TokenInfo): void {
+    const list = (this.tokens.get(network) || []).filter(
+      (existing) => existing.symbol !== token.symbol && existing.mint !== token.mint
+    );
+    list.push(token);
+    this.tokens.set(network, list);
+  }
+
+  /**
+   * Find a token by symbol or mint address
+   */
+  resolve(network: Network, symbolOrMint: string): TokenInfo | undefined {
+    return this.tokens
+      .get(network)
+      ?.find((token) => token.symbol === symbolOrMint || token.mint === symbolOrMint);
+  }
+
+  /**
+   * List the tokens registered for a network
+   */
+  list(network: Network): TokenInfo[] {
+    return [...(this.tokens.get(network) || [])];
+  }
+}
+
+/**
+ * Shared registry used by the SDK; extend it with `tokenRegistry.register()`
+ */
+export const tokenRegistry = new TokenRegistry();
+
+/**
+ * Mint info cache, keyed by RPC endpoint and mint.
+ * Decimals and owning program never change; transfer fee settings rarely do.
+ */
+const mintInfoCache = new Map<string, { info: MintInfo; timestamp: number }>();
+const MINT_INFO_TTL = 10 * 60 * 1000;
+
+/**
+ * Fetch (and cache) decimals, owning program and transfer fee config of a mint
+ */
+export async function getMintInfo(
+  connection: Connection,
+  mint: string | PublicKey
+): Promise<MintInfo> {
+  const address = typeof mint === "string" ? new PublicKey(mint) : mint;
+  const key = `${connection.rpcEndpoint}:${address.toBase58()}`;
+
+  const cached = mintInfoCache.get(key);
+  if (cached && Date.now() - cached.timestamp < MINT_INFO_TTL) {
+    return cached.info;
+  }
+
+  const account = await connection.getAccountInfo(address);
+  if (!account) {
+    throw new Error(`Mint account not found: ${address.toBase58()}`);
+  }
+
+  if (!account.owner.equals(TOKEN_PROGRAM_ID) && !account.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+    throw new Error(`Account ${address.toBase58()} is not an SPL token mint`);
+  }
+
+  const parsed = unpackMint(address, account, account.owner);
+  const info: MintInfo = {
+    mint: address.toBase58(),
+    decimals: parsed.decimals,
+    programId: account.owner.toBase58(),
+    transferFeeConfig: getTransferFeeConfig(parsed),
+  };
+
+  mintInfoCache.set(key, { info, timestamp: Date.now() });
+  return info;
+}
+
+/**
+ * Amount to send so the recipient receives at least `netAmount` after the
+ * Token-2022 transfer fee. Returns the gross amount and the fee withheld.
+ */
+export function calculateGrossAmount(
+  mintInfo: MintInfo,
+  epoch: bigint,
+  netAmount: bigint
+): { amount: bigint; fee: bigint } {
+  const config = mintInfo.transferFeeConfig;
+  if (!config) {
+    return { amount: netAmount, fee: BigInt(0) };
+  }
+
+  // Start from the exact inverse and step up past rounding of the fee
+  const { transferFeeBasisPoints, maximumFee } =
+    epoch >= config.newerTransferFee.epoch ? config.newerTransferFee : config.olderTransferFee;
+  const denominator = BigInt(10_000 - Math.min(transferFeeBasisPoints, 9_999));
+  let amount = (netAmount * BigInt(10_000)) / denominator;
+  if (amount - netAmount > maximumFee) {
+    amount = netAmount + maximumFee;
+  }
+
+  let fee = calculateEpochFee(config, epoch, amount);
+  while (amount - fee < netAmount) {
+    amount += BigInt(1);
+    fee = calculateEpochFee(config, epoch, amount);
+  }
+
+  return { amount, fee };
+}
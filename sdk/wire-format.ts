@@ -0,0 +1,272 @@
+/**
+ * x402 Solana SDK - Wire Format
+ * Conversion between the native SDK format and the x402 specification
+ * envelope (accepts[], x402Version, base64 X-PAYMENT / X-PAYMENT-RESPONSE).
+ * Envelope only, not interoperable: payloads carry this SDK's proof of a
+ * transaction the client already sent, which other x402 servers and
+ * facilitators do not accept.
+ */
+
+import {
+  Network,
+  PaymentProof,
+  PaymentProofSchema,
+  PaymentRequirements,
+  PaymentRequirementsSchema,
+  SpecPaymentRequirements,
+  SpecPaymentRequiredResponse,
+  SpecPaymentRequiredResponseSchema,
+  SpecPaymentPayload,
+  SpecPaymentPayloadSchema,
+  SpecSettlementResponse,
+  SpecSettlementResponseSchema,
+  X402_VERSION,
+} from "@shared/x402-types";
+import { getTokenMint, isNativeSol } from "./solana-utils";
+import { WRAPPED_SOL_MINT, tokenRegistry } from "./token-registry";
+
+/**
+ * Which wire format a 402 response or payment header uses
+ */
+export type WireFormat = "native" | "x402";
+
+/**
+ * Spec network identifiers for Solana clusters
+ */
+const SPEC_NETWORKS: Record<Network, string> = {
+  "mainnet-beta": "solana",
+  devnet: "solana-devnet",
+  testnet: "solana-testnet",
+};
+
+/**
+ * Resource details the spec format carries alongside each option
+ */
+export interface SpecResourceInfo {
+  resource: string; // Full URL of the resource
+  description?: string;
+  mimeType?: string;
+  maxTimeoutSeconds?: number;
+}
+
+/**
+ * Convert a Solana network to its spec identifier
+ */
+export function toSpecNetwork(network: Network): string {
+  return SPEC_NETWORKS[network];
+}
+
+/**
+ * Convert a spec network identifier to a Solana network (null if not Solana)
+ */
+export function fromSpecNetwork(network: string): Network | null {
+  const entry = Object.entries(SPEC_NETWORKS).find(([, spec]) => spec === network);
+  return entry ? (entry[0] as Network) : null;
+}
+
+/**
+ * Convert native requirements to a spec payment option
+ */
+export function toSpecRequirements(
+  requirements: PaymentRequirements,
+  info: SpecResourceInfo
+): SpecPaymentRequirements {
+  return {
+    scheme: requirements.scheme,
+    network: toSpecNetwork(requirements.network),
+    maxAmountRequired: requirements.amount,
+    resource: info.resource,
+    description: info.description ?? requirements.memo ?? "",
+    mimeType: info.mimeType ?? "application/json",
+    payTo: requirements.recipient,
+    maxTimeoutSeconds: info.maxTimeoutSeconds ?? 300,
+    asset: isNativeSol(requirements)
+      ? WRAPPED_SOL_MINT
+      : requirements.mint ?? getTokenMint(requirements.network, requirements.token) ?? "",
+    extra: {
+      token: requirements.token,
+      decimals: requirements.decimals,
+      tokenProgram: requirements.tokenProgram,
+      settlementAuthority: requirements.settlementAuthority,
+      maxQuantity: requirements.maxQuantity,
+      credit: requirements.credit,
+      pass: requirements.pass,
+      subscription: requirements.subscription,
+      memo: requirements.memo,
+      deadline: requirements.deadline,
+      requestId: requirements.requestId,
+      quote: requirements.quote,
+    },
+  };
+}
+
+/**
+ * Convert a spec payment option to native requirements.
+ * Returns null for options this SDK cannot pay (other chains, malformed
+ * options, or options not issued by an SDK server).
+ */
+export function fromSpecRequirements(
+  spec: SpecPaymentRequirements
+): PaymentRequirements | null {
+  const network = fromSpecNetwork(spec.network);
+  if (!network) return null;
+
+  const extra = spec.extra || {};
+
+  // SDK servers always issue a requestId. Without it the option comes from
+  // another x402 implementation, which expects a signed transaction rather
+  // than a proof of one already sent: paying it would lose the funds.
+  if (typeof extra.requestId !== "string") return null;
+
+  // The wrapped SOL mint with the native hint means native SOL; any other
+  // asset is an SPL mint, named by the registry or the server's hint
+  const native = spec.asset === WRAPPED_SOL_MINT && extra.token === "SOL";
+  const known = native ? undefined : tokenRegistry.resolve(network, spec.asset);
+  const token = native
+    ? "SOL"
+    : known?.symbol ?? (typeof extra.token === "string" ? extra.token : spec.asset);
+
+  const parsed = PaymentRequirementsSchema.safeParse({
+    scheme: spec.scheme,
+    network,
+    amount: spec.maxAmountRequired,
+    token,
+    mint: native ? undefined : spec.asset,
+    decimals: known?.decimals ?? extra.decimals,
+    tokenProgram: known?.programId ?? extra.tokenProgram,
+    recipient: spec.payTo,
+    settlementAuthority: extra.settlementAuthority,
+    maxQuantity: extra.maxQuantity,
+    credit: extra.credit,
+    pass: extra.pass,
+    subscription: extra.subscription,
+    memo: extra.memo,
+    deadline: extra.deadline,
+    requestId: extra.requestId,
+    quote: extra.quote,
+  });
+
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * Build a spec 402 response body
+ */
+export function createSpecPaymentRequiredResponse(
+  requirements: PaymentRequirements[],
+  info: SpecResourceInfo,
+  error = "X-PAYMENT header is required"
+): SpecPaymentRequiredResponse {
+  return {
+    x402Version: X402_VERSION,
+    accepts: requirements.map((option) => toSpecRequirements(option, info)),
+    error,
+  };
+}
+
+/**
+ * Parse a 402 response body in either format.
+ * Returns the payable options (spec options for other chains are skipped).
+ */
+export function parsePaymentRequiredBody(body: unknown): {
+  format: WireFormat;
+  requirements: PaymentRequirements[];
+  error?: string;
+} {
+  const spec = SpecPaymentRequiredResponseSchema.safeParse(body);
+  if (spec.success) {
+    return {
+      format: "x402",
+      requirements: spec.data.accepts
+        .map(fromSpecRequirements)
+        .filter((option): option is PaymentRequirements => option !== null),
+      error: spec.data.error,
+    };
+  }
+
+  // Native: requirements at the top level, or nested in an error body.
+  // Multiple options are listed in accepts[]
+  const record = (body ?? {}) as Record<string, unknown>;
+  const native = ("requirements" in record ? record.requirements : body) as
+    Record<string, unknown>;
+  const options = Array.isArray(native?.accepts) ? native.accepts : [native];
+
+  return {
+    format: "native",
+    requirements: options.map((option) => PaymentRequirementsSchema.parse(option)),
+    error: typeof record.error === "string" ? record.error : undefined,
+  };
+}
+
+/**
+ * Encode a payment proof for the X-Payment header. In the x402 envelope the
+ * payload is this SDK's proof ({ signature, requestId, quote, timestamp }),
+ * not the spec's signed transaction.
+ */
+export function encodePaymentHeader(
+  proof: PaymentProof,
+  format: WireFormat,
+  scheme: PaymentRequirements["scheme"] = "exact"
+): string {
+  if (format === "native") {
+    return JSON.stringify(proof);
+  }
+
+  const payload: SpecPaymentPayload = {
+    x402Version: X402_VERSION,
+    scheme,
+    network: toSpecNetwork(proof.network),
+    payload: {
+      signature: proof.signature,
+      requestId: proof.requestId,
+      quote: proof.quote,
+      timestamp: proof.timestamp,
+    },
+  };
+
+  return Buffer.from(JSON.stringify(payload), "utf8").toString("base64");
+}
+
+/**
+ * Decode an X-Payment header in either format (raw JSON or base64 spec payload)
+ */
+export function decodePaymentHeader(header: string): {
+  format: WireFormat;
+  proof: PaymentProof;
+} {
+  const trimmed = header.trim();
+  if (trimmed.startsWith("{")) {
+    return { format: "native", proof: PaymentProofSchema.parse(JSON.parse(trimmed)) };
+  }
+
+  const decoded = JSON.parse(Buffer.from(trimmed, "base64").toString("utf8"));
+  const spec = SpecPaymentPayloadSchema.parse(decoded);
+  const network = fromSpecNetwork(spec.network);
+  if (!network) {
+    throw new Error(`Unsupported payment network: ${spec.network}`);
+  }
+
+  return {
+    format: "x402",
+    proof: PaymentProofSchema.parse({ ...spec.payload, network }),
+  };
+}
+
+/**
+ * Encode a settlement result for the X-PAYMENT-RESPONSE header
+ */
+export function encodePaymentResponseHeader(
+  settlement: SpecSettlementResponse
+): string {
+  return Buffer.from(JSON.stringify(settlement), "utf8").toString("base64");
+}
+
+/**
+ * Decode an X-PAYMENT-RESPONSE header
+ */
+export function decodePaymentResponseHeader(
+  header: string
+): SpecSettlementResponse {
+  const decoded = JSON.parse(Buffer.from(header, "base64").toString("utf8"));
+  return SpecSettlementResponseSchema.parse(decoded);
+}
@@ -13,7 +13,7 @@ export type PaymentScheme = z.infer<typeof PaymentSchemeSchema>;
 export const NetworkSchema = z.enum(["mainnet-beta", "devnet", "testnet"]);
 export type Network = z.infer<typeof NetworkSchema>;
 
-// Token types supported on Solana
+// Tokens built into the SDK (others can be added to the token registry)
 export const TokenTypeSchema = z.enum(["SOL", "USDC", "USDT"]);
 export type TokenType = z.infer<typeof TokenTypeSchema>;
 
@@ -29,14 +29,31 @@ export const PaymentRequirementsSchema = z.object({
   network: NetworkSchema,
   
   // Payment details
-  amount: z.string(), // Amount in token's smallest unit (lamports for SOL, base units for USDC)
-  token: TokenTypeSchema,
+  amount: z.string(), // Amount in token's smallest unit (lamports for SOL, base units for USDC); maximum for "upto"
+  token: z.string(), // Token symbol ("SOL" = native SOL)
+  mint: z.string().optional(), // SPL mint address (absent for native SOL)
+  decimals: z.number().int().min(0).optional(), // Token decimals
+  tokenProgram: z.string().optional(), // SPL Token or Token-2022 program owning the mint
   recipient: z.string(), // Solana address of payment recipient
+  settlementAuthority: z.string().optional(), // "upto" only: delegate that settles the used amount
+  maxQuantity: z.number().int().min(1).optional(), // "exact" only: requests one payment of amount × N may cover
+  credit: z.boolean().optional(), // Top-up: the payment buys prepaid credit, spent through a session token
+  pass: z.object({ // The payment buys an access pass
+    duration: z.number(), // Seconds of access
+    scope: z.string(), // Paths covered: exact, or a prefix ending in "*"
+    maxUses: z.number().int().min(1).optional(),
+  }).optional(),
+  subscription: z.object({ // "upto" only: the authorization starts a subscription
+    plan: z.string(), // Plan id
+    amount: z.string(), // Charged each period (base units)
+    period: z.number(), // Seconds
+  }).optional(),
   
   // Optional metadata
   memo: z.string().optional(), // Transaction memo
   deadline: z.number().optional(), // Unix timestamp for payment deadline
   requestId: z.string().optional(), // Unique request identifier
+  quote: z.string().optional(), // Server-signed quote, echoed back in the payment proof
 });
 
 export type PaymentRequirements = z.infer<typeof PaymentRequirementsSchema>;
@@ -54,6 +71,9 @@ export const PaymentProofSchema = z.object({
   
   // Optional: Request ID for correlation
   requestId: z.string().optional(),
+
+  // Optional: Signed quote from the payment requirements
+  quote: z.string().optional(),
   
   // Timestamp when payment was made
   timestamp: z.number(),
@@ -74,6 +94,91 @@ export interface X402Response {
   body: PaymentRequirements;
 }
 
+/**
+ * x402 Specification Wire Format (x402Version 1)
+ * Envelope used by Coinbase x402 servers and clients. Only the envelope is
+ * implemented: the X-PAYMENT payload carries this SDK's proof of an
+ * already-broadcast transaction, not the signed transaction the spec's
+ * Solana "exact" scheme hands to the server or facilitator, so payments
+ * only round-trip between this SDK's clients and servers.
+ */
+export const X402_VERSION = 1;
+
+/**
+ * One accepted payment option in a spec 402 response
+ */
+export const SpecPaymentRequirementsSchema = z.object({
+  scheme: z.string(),
+  network: z.string(), // e.g. "solana", "solana-devnet", "base"
+  maxAmountRequired: z.string(), // Base units
+  resource: z.string(), // URL of the resource being paid for
+  description: z.string(),
+  mimeType: z.string(),
+  payTo: z.string(),
+  maxTimeoutSeconds: z.number(),
+  asset: z.string(), // Token mint address
+  outputSchema: z.record(z.unknown()).nullable().optional(),
+  extra: z.record(z.unknown()).nullable().optional(), // Native fields (token, requestId, quote, ...)
+});
+
+export type SpecPaymentRequirements = z.infer<typeof SpecPaymentRequirementsSchema>;
+
+/**
+ * Spec 402 response body
+ */
+export const SpecPaymentRequiredResponseSchema = z.object({
+  x402Version: z.number(),
+  accepts: z.array(SpecPaymentRequirementsSchema),
+  error: z.string().optional(),
+});
+
+export type SpecPaymentRequiredResponse = z.infer<typeof SpecPaymentRequiredResponseSchema>;
+
+/**
+ * Spec payment payload, sent base64-encoded in the X-PAYMENT header
+ */
+export const SpecPaymentPayloadSchema = z.object({
+  x402Version: z.number(),
+  scheme: z.string(),
+  network: z.string(),
+  payload: z.record(z.unknown()),
+});
+
+export type SpecPaymentPayload = z.infer<typeof SpecPaymentPayloadSchema>;
+
+/**
+ * Spec settlement response, sent base64-encoded in the X-PAYMENT-RESPONSE header
+ */
+export const SpecSettlementResponseSchema = z.object({
+  success: z.boolean(),
+  transaction: z.string(),
+  network: z.string(),
+  payer: z.string().optional(),
+  errorReason: z.string().optional(),
+});
+
+export type SpecSettlementResponse = z.infer<typeof SpecSettlementResponseSchema>;
+
+/**
+ * Why a payment proof was rejected, returned as `reason` in the 402 body
+ */
+export const VerificationFailureReasonSchema = z.enum([
+  "NOT_FOUND", // Transaction not (yet) visible at the required commitment
+  "TX_FAILED", // Transaction failed on-chain
+  "WRONG_RECIPIENT", // No transfer (or approval) to the recipient
+  "INSUFFICIENT_AMOUNT",
+  "WRONG_MINT", // Paid in a different token
+  "MEMO_MISMATCH", // Payment not bound to the issued requirements
+  "AUTHORIZATION_REVOKED", // "upto" delegation revoked or changed since
+  "NETWORK_MISMATCH",
+  "EXPIRED", // Paid after the requirements deadline
+  "REPLAYED", // Proof already used
+  "NOT_FINAL", // Not yet finalized
+  "RPC_ERROR", // Verification could not reach the RPC node
+]);
+
+export type VerificationFailureReason = z.infer<typeof VerificationFailureReasonSchema>;
+
 /**
  * Transaction Status
  */
@@ -134,3 +239,68 @@ export class InvalidPaymentProofError extends X402Error {
     this.name = "InvalidPaymentProofError";
   }
 }
+
+export class PaymentAlreadyConsumedError extends X402Error {
+  constructor(
+    public signature: string,
+    message = "Payment proof has already been used"
+  ) {
+    super(message, "PAYMENT_ALREADY_CONSUMED", { signature });
+    this.name = "PaymentAlreadyConsumedError";
+  }
+}
+
+export class PaymentVerificationError extends X402Error {
+  constructor(
+    public reason: VerificationFailureReason,
+    message: string,
+    public signature?: string
+  ) {
+    super(message, "PAYMENT_VERIFICATION_FAILED", { reason, signature });
+    this.name = "PaymentVerificationError";
+  }
+}
+
+/**
+ * Client spending policy rule that blocked a payment
+ */
+export type SpendingLimit =
+  | "MAX_PER_REQUEST"
+  | "HOURLY_BUDGET"
+  | "DAILY_BUDGET"
+  | "ORIGIN_HOURLY_BUDGET"
+  | "ORIGIN_DAILY_BUDGET"
+  | "RECIPIENT_NOT_ALLOWED"
+  | "NETWORK_NOT_ALLOWED";
+
+export class BudgetExceededError extends X402Error {
+  constructor(
+    public limit: SpendingLimit,
+    public paymentRequirements: PaymentRequirements,
+    message: string
+  ) {
+    super(message, "BUDGET_EXCEEDED", { limit, paymentRequirements });
+    this.name = "BudgetExceededError";
+  }
+}
+
+export class PaymentDeclinedError extends X402Error {
+  constructor(
+    public paymentRequirements: PaymentRequirements,
+    message = "Payment declined"
+  ) {
+    super(message, "PAYMENT_DECLINED", paymentRequirements);
+    this.name = "PaymentDeclinedError";
+  }
+}
+
+export class PaidButFailedError extends X402Error {
+  constructor(
+    public proof: PaymentProof,
+    message = "Payment was made but the paid request failed",
+    details?: unknown
+  ) {
+    super(message, "PAID_BUT_FAILED", { proof, details });
+    this.name = "PaidButFailedError";
+  }
+}